@@ -0,0 +1,6 @@
+module.exports = {
+  preset: 'react-native',
+  setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
+  // immer resolves to its ESM build under the react-native export condition
+  transformIgnorePatterns: ['node_modules/(?!((jest-)?react-native|@react-native(-community)?|immer)/)'],
+};
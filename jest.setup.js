@@ -0,0 +1,53 @@
+/**
+ * jest.setup.js — In-memory stand-ins for the native storage modules
+ * The backing maps live in this file's scope rather than in the mock modules,
+ * so they survive jest.resetModules(): a test can reload the app's modules to
+ * simulate a restart and still read what the previous "launch" stored.
+ */
+
+const mockKeychain = new Map();
+const mockStorage  = new Map();
+
+jest.mock('react-native-keychain', () => ({
+  ACCESSIBLE: {
+    WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'AccessibleWhenUnlockedThisDeviceOnly',
+    WHEN_PASSCODE_SET_THIS_DEVICE_ONLY: 'AccessibleWhenPasscodeSetThisDeviceOnly',
+  },
+  ACCESS_CONTROL: {
+    BIOMETRY_ANY_OR_DEVICE_PASSCODE: 'BiometryAnyOrDevicePasscode',
+    BIOMETRY_CURRENT_SET: 'BiometryCurrentSet',
+  },
+  setGenericPassword: jest.fn(async (username, password, options = {}) => {
+    mockKeychain.set(options.service ?? '', { username, password, service: options.service ?? '' });
+    return { service: options.service ?? '', storage: 'mock' };
+  }),
+  getGenericPassword: jest.fn(async (options = {}) => mockKeychain.get(options.service ?? '') ?? false),
+  resetGenericPassword: jest.fn(async (options = {}) => mockKeychain.delete(options.service ?? '')),
+}));
+
+jest.mock('react-native-encrypted-storage', () => ({
+  __esModule: true,
+  default: {
+    setItem: jest.fn(async (key, value) => { mockStorage.set(key, value); }),
+    getItem: jest.fn(async (key) => mockStorage.get(key) ?? null),
+    removeItem: jest.fn(async (key) => { mockStorage.delete(key); }),
+    clear: jest.fn(async () => { mockStorage.clear(); }),
+  },
+}));
+
+// Same API as Node's crypto module, which it implements natively on device
+jest.mock('react-native-quick-crypto', () => ({ __esModule: true, default: jest.requireActual('crypto') }));
+
+jest.mock('react-native-biometrics', () => ({
+  __esModule: true,
+  BiometryTypes: { TouchID: 'TouchID', FaceID: 'FaceID', Biometrics: 'Biometrics' },
+  default: jest.fn().mockImplementation(() => ({
+    isSensorAvailable: jest.fn(async () => ({ available: false })),
+    simplePrompt: jest.fn(async () => ({ success: false })),
+  })),
+}));
+
+beforeEach(() => {
+  mockKeychain.clear();
+  mockStorage.clear();
+});
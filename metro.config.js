@@ -0,0 +1,22 @@
+const path = require('path');
+const { getDefaultConfig, mergeConfig } = require('@react-native/metro-config');
+
+/**
+ * Metro configuration
+ * https://reactnative.dev/docs/metro
+ *
+ * slip39 (core/shamir.ts) calls require('crypto'), which React Native does not
+ * have. react-native-quick-crypto implements the parts it uses (randomBytes,
+ * pbkdf2Sync, createHmac) natively, so it stands in for the Node module.
+ *
+ * @type {import('metro-config').MetroConfig}
+ */
+const config = {
+  resolver: {
+    extraNodeModules: {
+      crypto: path.dirname(require.resolve('react-native-quick-crypto/package.json')),
+    },
+  },
+};
+
+module.exports = mergeConfig(getDefaultConfig(__dirname), config);
@@ -0,0 +1,21 @@
+/**
+ * ActivityTextInput.tsx — TextInput that keeps the auto-lock timer alive
+ * Keystrokes never reach the root view's touch handler, so without this a
+ * user typing a long passphrase or address would be locked out mid-entry.
+ */
+import React, { forwardRef } from 'react';
+import { TextInput, TextInputProps } from 'react-native';
+import { recordActivity } from '../core/autolock';
+
+const ActivityTextInput = forwardRef<TextInput, TextInputProps>(({ onChangeText, ...props }, ref) => (
+  <TextInput
+    ref={ref}
+    {...props}
+    onChangeText={(text) => {
+      recordActivity();
+      onChangeText?.(text);
+    }}
+  />
+));
+
+export default ActivityTextInput;
@@ -0,0 +1,111 @@
+/**
+ * BackupQuiz.tsx — Asks for randomly chosen words of a recovery phrase
+ * Used right after wallet creation and from Settings to prove a backup exists.
+ */
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { ethers } from 'ethers';
+import { Colors, Spacing, Radius, Typography } from '../constants/theme';
+
+type Props = {
+  words: string[];
+  onPass: () => void;
+  onSkip?: () => void;
+};
+
+const QUESTIONS = 3;
+const CHOICES   = 4;
+
+interface Question {
+  position: number;     // 0-based word index
+  choices: string[];
+}
+
+export default function BackupQuiz({ words, onPass, onSkip }: Props) {
+  const [round, setRound]     = useState(0);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const questions = useMemo(() => buildQuiz(words), [words, round]);
+
+  const complete = questions.every(q => answers[q.position]);
+
+  const check = () => {
+    if (questions.every(q => answers[q.position] === words[q.position])) {
+      onPass();
+      return;
+    }
+    Alert.alert('Not quite', 'One or more words are wrong. Check your written backup and try again.');
+    setAnswers({});
+    setRound(r => r + 1);
+  };
+
+  return (
+    <View>
+      {questions.map((q) => (
+        <View key={`${round}-${q.position}`} style={styles.question}>
+          <Text style={styles.prompt}>Word #{q.position + 1}</Text>
+          <View style={styles.choices}>
+            {q.choices.map((choice) => {
+              const picked = answers[q.position] === choice;
+              return (
+                <TouchableOpacity
+                  key={choice}
+                  style={[styles.choice, picked && styles.choicePicked]}
+                  onPress={() => setAnswers(a => ({ ...a, [q.position]: choice }))}>
+                  <Text style={[styles.choiceText, picked && styles.choiceTextPicked]}>{choice}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[styles.btn, !complete && styles.btnDisabled]}
+        onPress={check}
+        disabled={!complete}>
+        <Text style={styles.btnText}>Verify</Text>
+      </TouchableOpacity>
+
+      {onSkip && (
+        <TouchableOpacity style={styles.skip} onPress={onSkip}>
+          <Text style={styles.skipText}>Skip for now</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+// Distinct positions, each with the right word and decoys from the same phrase
+function buildQuiz(words: string[]): Question[] {
+  const positions = shuffle(words.map((_, i) => i)).slice(0, QUESTIONS).sort((a, b) => a - b);
+  return positions.map((position) => {
+    const decoys = shuffle([...new Set(words)].filter(w => w !== words[position])).slice(0, CHOICES - 1);
+    return { position, choices: shuffle([words[position], ...decoys]) };
+  });
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const out = [...items];
+  const rand = ethers.randomBytes(out.length * 4);
+  for (let i = out.length - 1; i > 0; i--) {
+    const r = new DataView(rand.buffer, rand.byteOffset + i * 4, 4).getUint32(0);
+    const j = r % (i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+const styles = StyleSheet.create({
+  question:        { marginBottom: Spacing.lg },
+  prompt:          { ...Typography.label, marginBottom: Spacing.sm },
+  choices:         { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  choice:          { width: '47%', backgroundColor: Colors.bgCard, borderRadius: Radius.sm, padding: Spacing.md, alignItems: 'center', borderWidth: 1, borderColor: Colors.border },
+  choicePicked:    { borderColor: Colors.primary, backgroundColor: Colors.primary + '22' },
+  choiceText:      { ...Typography.body, fontFamily: 'monospace' },
+  choiceTextPicked:{ color: Colors.primary, fontWeight: '700' },
+  btn:             { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center', marginTop: Spacing.sm },
+  btnDisabled:     { opacity: 0.4 },
+  btnText:         { color: '#fff', fontSize: 16, fontWeight: '700' },
+  skip:            { alignItems: 'center', padding: Spacing.md },
+  skipText:        { color: Colors.textSecondary, fontSize: 14 },
+});
@@ -0,0 +1,192 @@
+/**
+ * FeeSelector.tsx — Slow/normal/fast network fee presets with an advanced
+ * editor for max fee, priority fee (or gas price) and gas limit.
+ * Reports the selected quote, or null while the custom values are invalid.
+ */
+import React, { useState, useEffect } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity, ActivityIndicator,
+} from 'react-native';
+import { ethers } from 'ethers';
+import { Colors, Spacing, Radius, Typography } from '../constants/theme';
+import {
+  FeeEstimate, FeeQuote, FeeParams, FeeSpeed, FEE_SPEEDS, quoteFor, validateFeeParams, formatFee,
+} from '../core/fees';
+import { formatUsd } from '../core/prices';
+import ActivityTextInput from './ActivityTextInput';
+
+type Props = {
+  estimate: FeeEstimate | null;
+  error: string | null;
+  symbol: string;
+  usdPrice: number | null;
+  onChange: (quote: FeeQuote | null) => void;
+};
+
+const SPEED_LABELS: Record<FeeSpeed, string> = { slow: 'Slow', normal: 'Normal', fast: 'Fast' };
+
+type Custom = { maxFee: string; priorityFee: string; gasPrice: string; gasLimit: string };
+
+function gwei(value: bigint): string {
+  return String(parseFloat(ethers.formatUnits(value, 'gwei')));
+}
+
+function customFrom(params: FeeParams): Custom {
+  return params.type === 2
+    ? { maxFee: gwei(params.maxFeePerGas), priorityFee: gwei(params.maxPriorityFeePerGas), gasPrice: '', gasLimit: String(params.gasLimit) }
+    : { maxFee: '', priorityFee: '', gasPrice: gwei(params.gasPrice), gasLimit: String(params.gasLimit) };
+}
+
+function parseCustom(custom: Custom, eip1559: boolean): FeeParams | null {
+  try {
+    const gasLimit = BigInt(custom.gasLimit.trim());
+    return eip1559
+      ? {
+          type: 2,
+          maxFeePerGas: ethers.parseUnits(custom.maxFee.trim(), 'gwei'),
+          maxPriorityFeePerGas: ethers.parseUnits(custom.priorityFee.trim(), 'gwei'),
+          gasLimit,
+        }
+      : { type: 0, gasPrice: ethers.parseUnits(custom.gasPrice.trim(), 'gwei'), gasLimit };
+  } catch {
+    return null;
+  }
+}
+
+export default function FeeSelector({ estimate, error, symbol, usdPrice, onChange }: Props) {
+  const [speed, setSpeed]       = useState<FeeSpeed>('normal');
+  const [advanced, setAdvanced] = useState(false);
+  const [custom, setCustom]     = useState<Custom | null>(null);
+
+  const customParams = estimate && custom ? parseCustom(custom, estimate.eip1559) : null;
+  const customError  = !advanced || !custom ? null
+    : customParams ? validateFeeParams(customParams) : 'Enter numbers only.';
+
+  useEffect(() => {
+    if (!estimate) onChange(null);
+    else if (!advanced) onChange(estimate.quotes[speed]);
+    else onChange(customParams && !customError ? quoteFor(customParams, estimate.baseFee) : null);
+  }, [estimate, speed, advanced, custom]);
+
+  const openAdvanced = () => {
+    if (!estimate) return;
+    if (!advanced) setCustom(customFrom(estimate.quotes[speed].params));
+    setAdvanced(a => !a);
+  };
+
+  const fiat = (wei: bigint) =>
+    usdPrice === null ? '' : formatUsd(Number(ethers.formatEther(wei)) * usdPrice);
+
+  if (error) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.label}>Network Fee</Text>
+        <Text style={styles.error}>Could not estimate fees ({error}). The network default will be used.</Text>
+      </View>
+    );
+  }
+
+  if (!estimate) {
+    return (
+      <View style={[styles.card, styles.loadingCard]}>
+        <Text style={styles.label}>Network Fee</Text>
+        <ActivityIndicator color={Colors.primary} size="small" />
+      </View>
+    );
+  }
+
+  const customQuote = customParams && !customError ? quoteFor(customParams, estimate.baseFee) : null;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.label}>Network Fee</Text>
+        <TouchableOpacity onPress={openAdvanced}>
+          <Text style={styles.link}>{advanced ? 'Use presets' : 'Advanced'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {!advanced && (
+        <View style={styles.presets}>
+          {FEE_SPEEDS.map((s) => {
+            const quote = estimate.quotes[s];
+            return (
+              <TouchableOpacity
+                key={s}
+                style={[styles.preset, speed === s && styles.presetActive]}
+                onPress={() => setSpeed(s)}>
+                <Text style={[styles.presetTitle, speed === s && { color: Colors.primary }]}>{SPEED_LABELS[s]}</Text>
+                <Text style={styles.presetValue}>{formatFee(quote.expectedCost, symbol)}</Text>
+                {usdPrice !== null && <Text style={styles.presetFiat}>{fiat(quote.expectedCost)}</Text>}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {advanced && custom && (
+        <View>
+          {estimate.eip1559 ? (
+            <>
+              <FeeField label="Max fee (gwei)" value={custom.maxFee}
+                onChange={(maxFee) => setCustom({ ...custom, maxFee })} />
+              <FeeField label="Priority fee (gwei)" value={custom.priorityFee}
+                onChange={(priorityFee) => setCustom({ ...custom, priorityFee })} />
+            </>
+          ) : (
+            <FeeField label="Gas price (gwei)" value={custom.gasPrice}
+              onChange={(gasPrice) => setCustom({ ...custom, gasPrice })} />
+          )}
+          <FeeField label="Gas limit" value={custom.gasLimit} integer
+            onChange={(gasLimit) => setCustom({ ...custom, gasLimit })} />
+          {estimate.baseFee !== null && (
+            <Text style={styles.hint}>Current base fee: {gwei(estimate.baseFee)} gwei · estimated gas: {String(estimate.gasLimit)}</Text>
+          )}
+          {customError
+            ? <Text style={styles.error}>{customError}</Text>
+            : customQuote && (
+              <Text style={styles.hint}>
+                ≈ {formatFee(customQuote.expectedCost, symbol)} {fiat(customQuote.expectedCost)} · up to {formatFee(customQuote.maxCost, symbol)}
+              </Text>
+            )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function FeeField({ label, value, onChange, integer }: {
+  label: string; value: string; onChange: (v: string) => void; integer?: boolean;
+}) {
+  return (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <ActivityTextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChange}
+        keyboardType={integer ? 'number-pad' : 'decimal-pad'}
+        placeholderTextColor={Colors.textMuted}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card:         { backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, marginTop: Spacing.md, marginBottom: Spacing.lg, borderWidth: 1, borderColor: Colors.border },
+  loadingCard:  { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  headerRow:    { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: Spacing.sm },
+  label:        { ...Typography.caption, color: Colors.textSecondary },
+  link:         { ...Typography.caption, color: Colors.primary, fontWeight: '600' },
+  presets:      { flexDirection: 'row', gap: 8 },
+  preset:       { flex: 1, alignItems: 'center', paddingVertical: Spacing.sm, borderRadius: Radius.sm, borderWidth: 1, borderColor: Colors.border },
+  presetActive: { borderColor: Colors.primary, backgroundColor: Colors.primary + '22' },
+  presetTitle:  { ...Typography.caption, fontWeight: '600', color: Colors.textPrimary, marginBottom: 2 },
+  presetValue:  { fontSize: 11, color: Colors.warning, fontFamily: 'monospace' },
+  presetFiat:   { fontSize: 11, color: Colors.textSecondary, marginTop: 2 },
+  field:        { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: Spacing.sm },
+  fieldLabel:   { ...Typography.caption, flex: 1 },
+  input:        { width: 140, backgroundColor: Colors.bgInput, borderWidth: 1, borderColor: Colors.border, borderRadius: Radius.sm, paddingHorizontal: Spacing.sm, paddingVertical: 6, color: Colors.textPrimary, fontSize: 14, textAlign: 'right' },
+  hint:         { ...Typography.caption, color: Colors.textMuted, marginTop: 4, lineHeight: 18 },
+  error:        { ...Typography.caption, color: Colors.danger, marginTop: 4, lineHeight: 18 },
+});
@@ -0,0 +1,68 @@
+/**
+ * PinPad.tsx — 6-digit PIN dots and numeric keypad
+ * Controlled: the parent owns the digits and is told when all are entered.
+ */
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors, Spacing, Typography } from '../constants/theme';
+
+export const PIN_LENGTH = 6;
+const PAD = ['1','2','3','4','5','6','7','8','9','','0','⌫'];
+const KEY_SIZE = 80;
+const KEY_GAP  = 12;
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete: (pin: string) => void;
+  disabled?: boolean;
+};
+
+export default function PinPad({ value, onChange, onComplete, disabled }: Props) {
+  const handleKey = (key: string) => {
+    if (disabled) return;
+    if (key === '⌫') {
+      onChange(value.slice(0, -1));
+      return;
+    }
+    if (value.length >= PIN_LENGTH) return;
+    const next = value + key;
+    onChange(next);
+    if (next.length === PIN_LENGTH) onComplete(next);
+  };
+
+  return (
+    <>
+      <View style={styles.dots}>
+        {Array.from({ length: PIN_LENGTH }, (_, i) => (
+          <View key={i} style={[styles.dot, i < value.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      <View style={styles.pad}>
+        {PAD.map((key, i) => (
+          <TouchableOpacity
+            key={i}
+            style={[styles.key, key === '' && styles.keyEmpty]}
+            onPress={() => key && handleKey(key)}
+            disabled={!key || disabled}
+            activeOpacity={0.7}>
+            <Text style={[styles.keyText, key === '⌫' && styles.keyDelete]}>{key}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  dots:      { flexDirection: 'row', justifyContent: 'center', gap: Spacing.md, marginBottom: Spacing.xl },
+  dot:       { width: 16, height: 16, borderRadius: 8, borderWidth: 2, borderColor: Colors.border, backgroundColor: 'transparent' },
+  dotFilled: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  // Exactly three keys wide on any screen, so '0' always sits under '8'
+  pad:       { flexDirection: 'row', flexWrap: 'wrap', gap: KEY_GAP, width: KEY_SIZE * 3 + KEY_GAP * 2, alignSelf: 'center', marginBottom: Spacing.xl },
+  key:       { width: KEY_SIZE, height: KEY_SIZE, borderRadius: KEY_SIZE / 2, backgroundColor: Colors.bgCard, justifyContent: 'center', alignItems: 'center' },
+  keyEmpty:  { backgroundColor: 'transparent' },
+  keyText:   { ...Typography.h2, color: Colors.textPrimary },
+  keyDelete: { fontSize: 22 },
+});
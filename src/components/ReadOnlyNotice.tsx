@@ -0,0 +1,27 @@
+/**
+ * ReadOnlyNotice.tsx — Shown instead of signing actions for watch-only wallets
+ */
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Colors, Spacing, Radius, Typography } from '../constants/theme';
+
+type Props = { action: string };
+
+export const READ_ONLY_MESSAGE = 'This is a watch-only wallet. It can track balances but cannot sign transactions.';
+
+export default function ReadOnlyNotice({ action }: Props) {
+  return (
+    <View style={styles.box}>
+      <Text style={styles.title}>👁 Read-only wallet</Text>
+      <Text style={styles.text}>
+        {action} is unavailable. {READ_ONLY_MESSAGE} Switch to a wallet with keys to continue.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box:   { backgroundColor: Colors.warning + '15', borderWidth: 1, borderColor: Colors.warning + '55', borderRadius: Radius.md, padding: Spacing.md, marginBottom: Spacing.lg },
+  title: { ...Typography.body, fontWeight: '700', color: Colors.warning, marginBottom: 4 },
+  text:  { ...Typography.caption, color: Colors.textSecondary, lineHeight: 18 },
+});
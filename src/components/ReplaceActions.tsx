@@ -0,0 +1,173 @@
+/**
+ * ReplaceActions.tsx — Speed Up / Cancel for a pending send from this account
+ * Prices the replacement, confirms the fee, then signs with the session key or
+ * asks for the PIN (see core/replace.ts). The host adds the returned record to
+ * the history and handles a wipe.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, Modal,
+} from 'react-native';
+import { Colors, Spacing, Radius, Typography } from '../constants/theme';
+import { CHAINS } from '../constants/chains';
+import { AccountRef } from '../core/wallet';
+import { Transaction } from '../core/transactions';
+import { replacementAction, replacementFees, replaceTransaction, ReplacementKind } from '../core/replace';
+import { formatFee, FeeQuote } from '../core/fees';
+import { canSignWithSession, SessionExpiredError } from '../core/session';
+import { attemptPin, failureMessage, formatLockout } from '../core/lockout';
+import PinPad from './PinPad';
+
+type Props = {
+  tx: Transaction;
+  account: AccountRef;
+  onReplaced: (record: Transaction) => void;
+  onWiped: () => void;
+};
+
+type Replacement = { kind: ReplacementKind; quote: FeeQuote };
+
+const KIND_LABEL: Record<ReplacementKind, string> = { speedUp: 'Speed Up', cancel: 'Cancel' };
+
+export default function ReplaceActions({ tx, account, onReplaced, onWiped }: Props) {
+  const [replacement, setReplacement] = useState<Replacement | null>(null);
+  const [pin, setPin]   = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const symbol = CHAINS[tx.chainKey].symbol;
+
+  // ── Quote, confirm, then sign with the session or ask for the PIN ──────────
+  const startReplace = async (kind: ReplacementKind) => {
+    setBusy(true);
+    let quote: FeeQuote;
+    try {
+      quote = await replacementFees(tx, kind);
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not price the replacement.');
+      return;
+    } finally {
+      setBusy(false);
+    }
+    const withSession = canSignWithSession(account, replacementAction(tx));
+    Alert.alert(
+      kind === 'cancel' ? 'Cancel Transaction' : 'Speed Up Transaction',
+      `${kind === 'cancel'
+        ? 'Replace it with an empty transfer to yourself.'
+        : 'Re-send it with higher fees.'} Network fee up to ${formatFee(quote.maxCost, symbol)}.`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: KIND_LABEL[kind],
+          onPress: () => {
+            const next = { kind, quote };
+            setReplacement(next);
+            setPin('');
+            if (withSession) submit(next, null);
+          },
+        },
+      ],
+    );
+  };
+
+  // ── PIN check (shared lockout with UnlockScreen) ────────────────────────────
+  const checkPin = async (enteredPin: string) => {
+    setBusy(true);
+    let result;
+    try {
+      result = await attemptPin(enteredPin);
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not verify PIN.');
+      setPin('');
+      return;
+    } finally {
+      setBusy(false);
+    }
+    switch (result.status) {
+      case 'ok':
+        await submit(replacement!, enteredPin);
+        return;
+      case 'locked':
+        Alert.alert('Locked', `Too many attempts. Try again in ${formatLockout(result.lockedUntil)}.`);
+        break;
+      case 'wiped':
+        setReplacement(null);
+        onWiped();
+        return;
+      case 'wrong':
+        Alert.alert('Wrong PIN', failureMessage(result));
+        break;
+    }
+    setPin('');
+  };
+
+  // A null PIN signs with the session key
+  const submit = async ({ kind, quote }: Replacement, enteredPin: string | null) => {
+    setBusy(true);
+    try {
+      const record = await replaceTransaction(tx, kind, quote.params, enteredPin, account);
+      setReplacement(null);
+      onReplaced(record);
+    } catch (e: any) {
+      if (e instanceof SessionExpiredError) {
+        setPin('');
+        return;
+      }
+      Alert.alert('Replacement Failed', e.message || 'Unknown error');
+      setReplacement(null);
+      setPin('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      {busy && !replacement
+        ? <ActivityIndicator color={Colors.primary} style={{ marginVertical: Spacing.md }} />
+        : (
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.speedUpBtn} onPress={() => startReplace('speedUp')}>
+              <Text style={styles.speedUpText}>Speed Up</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelBtn} onPress={() => startReplace('cancel')}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+      {/* PIN confirmation */}
+      <Modal
+        visible={!!replacement}
+        animationType="slide"
+        onRequestClose={() => { setReplacement(null); setPin(''); }}>
+        {replacement && (
+          <View style={styles.pinScreen}>
+            <TouchableOpacity style={styles.back} onPress={() => { setReplacement(null); setPin(''); }}>
+              <Text style={styles.backText}>← Back</Text>
+            </TouchableOpacity>
+            <Text style={styles.pinTitle}>{KIND_LABEL[replacement.kind]}</Text>
+            <Text style={styles.pinSubtitle}>
+              Confirm with PIN{'\n'}Network fee up to {formatFee(replacement.quote.maxCost, symbol)}
+            </Text>
+            {busy
+              ? <ActivityIndicator color={Colors.primary} size="large" style={{ marginVertical: Spacing.xl }} />
+              : <PinPad value={pin} onChange={setPin} onComplete={checkPin} />}
+          </View>
+        )}
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  actions:     { flexDirection: 'row', gap: 12, marginBottom: Spacing.md },
+  speedUpBtn:  { flex: 1, backgroundColor: Colors.primary, paddingVertical: 14, borderRadius: Radius.lg, alignItems: 'center' },
+  speedUpText: { color: '#fff', fontWeight: '700', fontSize: 15 },
+  cancelBtn:   { flex: 1, borderWidth: 1, borderColor: Colors.danger, paddingVertical: 14, borderRadius: Radius.lg, alignItems: 'center' },
+  cancelText:  { color: Colors.danger, fontWeight: '700', fontSize: 15 },
+  pinScreen:   { flex: 1, backgroundColor: Colors.bg, justifyContent: 'center', alignItems: 'center', paddingHorizontal: Spacing.lg },
+  back:        { position: 'absolute', top: 56, left: Spacing.lg },
+  backText:    { color: Colors.primary, fontSize: 20 },
+  pinTitle:    { ...Typography.h2, marginBottom: Spacing.sm },
+  pinSubtitle: { ...Typography.caption, color: Colors.textSecondary, textAlign: 'center', marginBottom: Spacing.xl },
+});
@@ -0,0 +1,130 @@
+/**
+ * ShamirShareCollector.tsx — Collects SLIP-39 shares one at a time, tracking
+ * group progress until the master secret can be rebuilt.
+ */
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Colors, Spacing, Radius, Typography } from '../constants/theme';
+import {
+  isValidShare, describeShare, combineShares, normalizeShare, ShareInfo,
+} from '../core/shamir';
+import ActivityTextInput from './ActivityTextInput';
+
+type Props = {
+  onRecovered: (mnemonic: string) => void;
+};
+
+interface Collected {
+  share: string;
+  info: ShareInfo;
+}
+
+export default function ShamirShareCollector({ onRecovered }: Props) {
+  const [collected, setCollected] = useState<Collected[]>([]);
+  const [input, setInput]         = useState('');
+
+  const first = collected[0]?.info;
+
+  // Members per group index, and how many groups have reached their threshold
+  const byGroup = new Map<number, Collected[]>();
+  collected.forEach(c => byGroup.set(c.info.groupIndex, [...(byGroup.get(c.info.groupIndex) ?? []), c]));
+  const completeGroups = [...byGroup.values()].filter(
+    members => members.length >= members[0].info.memberThreshold,
+  ).length;
+  const ready = !!first && completeGroups >= first.groupThreshold;
+
+  const addShare = () => {
+    const share = normalizeShare(input);
+    if (!isValidShare(share)) {
+      Alert.alert('Invalid Share', 'This share has an unknown word or a wrong checksum. Check it for typos.');
+      return;
+    }
+    const info = describeShare(share);
+    if (first && info.identifier !== first.identifier) {
+      Alert.alert('Different Backup', 'This share belongs to a different backup than the shares entered so far.');
+      return;
+    }
+    if (collected.some(c => c.info.groupIndex === info.groupIndex && c.info.memberIndex === info.memberIndex)) {
+      Alert.alert('Duplicate Share', 'This share was already entered.');
+      return;
+    }
+    setCollected(c => [...c, { share, info }]);
+    setInput('');
+  };
+
+  const restore = () => {
+    try {
+      onRecovered(combineShares(collected.map(c => c.share)));
+    } catch (e: any) {
+      Alert.alert('Cannot Restore', e.message);
+    }
+  };
+
+  return (
+    <View>
+      {first && (
+        <View style={styles.progress}>
+          <Text style={styles.progressTitle}>
+            {first.groupCount > 1
+              ? `Groups complete: ${completeGroups} of ${first.groupThreshold} needed`
+              : 'Shares entered'}
+          </Text>
+          {[...byGroup.entries()].sort(([a], [b]) => a - b).map(([gi, members]) => (
+            <Text key={gi} style={styles.progressRow}>
+              {first.groupCount > 1 ? `Group ${gi + 1}: ` : ''}
+              {members.length} of {members[0].info.memberThreshold} shares
+              {members.length >= members[0].info.memberThreshold ? ' ✓' : ''}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {!ready && (
+        <>
+          <ActivityTextInput
+            style={styles.input}
+            value={input}
+            onChangeText={setInput}
+            placeholder={`Enter share ${collected.length + 1} (20 or 33 words)`}
+            placeholderTextColor={Colors.textMuted}
+            multiline
+            numberOfLines={4}
+            autoCapitalize="none"
+            autoCorrect={false}
+            textAlignVertical="top"
+          />
+          <TouchableOpacity style={styles.btnSecondary} onPress={addShare}>
+            <Text style={styles.btnSecondaryText}>Add Share</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      <TouchableOpacity
+        style={[styles.btn, !ready && styles.btnDisabled]}
+        onPress={restore}
+        disabled={!ready}>
+        <Text style={styles.btnText}>Restore Wallet</Text>
+      </TouchableOpacity>
+
+      {collected.length > 0 && (
+        <TouchableOpacity style={styles.linkBtn} onPress={() => setCollected([])}>
+          <Text style={styles.linkText}>Start over</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  progress:        { backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, marginBottom: Spacing.lg, borderWidth: 1, borderColor: Colors.border },
+  progressTitle:   { ...Typography.body, fontWeight: '600', marginBottom: 4 },
+  progressRow:     { ...Typography.caption },
+  input:           { backgroundColor: Colors.bgInput, borderWidth: 1, borderColor: Colors.border, borderRadius: Radius.md, padding: Spacing.md, color: Colors.textPrimary, fontSize: 15, minHeight: 100, marginBottom: Spacing.sm, fontFamily: 'monospace' },
+  btnSecondary:    { alignItems: 'center', padding: Spacing.md, borderRadius: Radius.lg, borderWidth: 1, borderColor: Colors.primary, marginBottom: Spacing.lg },
+  btnSecondaryText:{ color: Colors.primary, fontWeight: '700', fontSize: 15 },
+  btn:             { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center', marginBottom: Spacing.sm },
+  btnDisabled:     { opacity: 0.5 },
+  btnText:         { color: '#fff', fontSize: 16, fontWeight: '700' },
+  linkBtn:         { alignItems: 'center', padding: Spacing.sm },
+  linkText:        { color: Colors.textSecondary, fontSize: 13 },
+});
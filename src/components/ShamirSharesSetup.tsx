@@ -0,0 +1,177 @@
+/**
+ * ShamirSharesSetup.tsx — Choose an M-of-N SLIP-39 scheme, then show each
+ * share once so it can be written down. Used at creation and from Settings.
+ */
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Colors, Spacing, Radius, Typography } from '../constants/theme';
+import { splitMnemonic, ShareGroupSpec } from '../core/shamir';
+
+type Props = {
+  mnemonic: string;
+  onDone: () => void;
+};
+
+const MAX_SHARES = 16;
+
+export default function ShamirSharesSetup({ mnemonic, onDone }: Props) {
+  const [groups, setGroups]                 = useState<ShareGroupSpec[]>([{ threshold: 2, count: 3 }]);
+  const [groupThreshold, setGroupThreshold] = useState(1);
+  const [shares, setShares]                 = useState<string[][] | null>(null);
+  const [cursor, setCursor]                 = useState({ group: 0, member: 0 });
+
+  const updateGroup = (gi: number, patch: Partial<ShareGroupSpec>) => {
+    setGroups(gs => gs.map((g, i) => {
+      if (i !== gi) return g;
+      const next  = { ...g, ...patch };
+      const count = Math.min(MAX_SHARES, Math.max(1, next.count));
+      return { count, threshold: Math.min(count, Math.max(1, next.threshold)) };
+    }));
+  };
+
+  const addGroup = () => {
+    if (groups.length >= MAX_SHARES) return;
+    setGroups(gs => [...gs, { threshold: 1, count: 1 }]);
+  };
+
+  const removeGroup = (gi: number) => {
+    const next = groups.filter((_, i) => i !== gi);
+    setGroups(next);
+    setGroupThreshold(t => Math.min(t, next.length));
+  };
+
+  const generate = () => {
+    // SLIP-39 forbids 1-of-N member sharing for N > 1
+    if (groups.some(g => g.threshold === 1 && g.count > 1)) {
+      Alert.alert('Invalid Scheme', 'A group that needs only 1 share must contain exactly 1 share.');
+      return;
+    }
+    try {
+      setShares(splitMnemonic(mnemonic, groupThreshold, groups));
+      setCursor({ group: 0, member: 0 });
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    }
+  };
+
+  const next = () => {
+    const { group, member } = cursor;
+    if (member + 1 < shares![group].length) {
+      setCursor({ group, member: member + 1 });
+    } else if (group + 1 < shares!.length) {
+      setCursor({ group: group + 1, member: 0 });
+    } else {
+      Alert.alert(
+        'All shares recorded?',
+        'Each share is shown only once. Store them in separate, safe places.',
+        [
+          { text: 'Go back', style: 'cancel' },
+          { text: 'Yes, done', onPress: onDone },
+        ],
+      );
+    }
+  };
+
+  // ── Share display ───────────────────────────────────────────────────────────
+  if (shares) {
+    const { group, member } = cursor;
+    const words = shares[group][member].split(' ');
+    return (
+      <View>
+        <Text style={styles.shareTitle}>
+          Group {group + 1} · Share {member + 1} of {shares[group].length}
+        </Text>
+        <Text style={styles.shareHint}>
+          {groups[group].threshold} of {groups[group].count} shares rebuild this group.
+          {groups.length > 1 ? ` ${groupThreshold} of ${groups.length} groups rebuild the wallet.` : ''}
+        </Text>
+        <View style={styles.grid}>
+          {words.map((word, i) => (
+            <View key={i} style={styles.wordCard}>
+              <Text style={styles.wordIndex}>{i + 1}</Text>
+              <Text style={styles.word}>{word}</Text>
+            </View>
+          ))}
+        </View>
+        <TouchableOpacity style={styles.btn} onPress={next}>
+          <Text style={styles.btnText}>I wrote this share down →</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  // ── Scheme ──────────────────────────────────────────────────────────────────
+  return (
+    <View>
+      {groups.map((g, gi) => (
+        <View key={gi} style={styles.groupCard}>
+          <View style={styles.groupHeader}>
+            <Text style={styles.groupTitle}>Group {gi + 1}</Text>
+            {groups.length > 1 && (
+              <TouchableOpacity onPress={() => removeGroup(gi)}>
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Stepper label="Shares" value={g.count} onChange={(count) => updateGroup(gi, { count })} />
+          <Stepper label="Needed" value={g.threshold} onChange={(threshold) => updateGroup(gi, { threshold })} />
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.linkBtn} onPress={addGroup}>
+        <Text style={styles.linkText}>+ Add group</Text>
+      </TouchableOpacity>
+
+      {groups.length > 1 && (
+        <View style={styles.groupCard}>
+          <Stepper
+            label="Groups needed"
+            value={groupThreshold}
+            onChange={(t) => setGroupThreshold(Math.min(groups.length, Math.max(1, t)))}
+          />
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.btn} onPress={generate}>
+        <Text style={styles.btnText}>Create Shares</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+function Stepper({ label, value, onChange }: { label: string; value: number; onChange: (v: number) => void }) {
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <TouchableOpacity style={styles.stepBtn} onPress={() => onChange(value - 1)}>
+        <Text style={styles.stepBtnText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepValue}>{value}</Text>
+      <TouchableOpacity style={styles.stepBtn} onPress={() => onChange(value + 1)}>
+        <Text style={styles.stepBtnText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  groupCard:    { backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, marginBottom: Spacing.sm, borderWidth: 1, borderColor: Colors.border },
+  groupHeader:  { flexDirection: 'row', justifyContent: 'space-between', marginBottom: Spacing.sm },
+  groupTitle:   { ...Typography.body, fontWeight: '600' },
+  removeText:   { color: Colors.danger, fontSize: 13 },
+  stepper:      { flexDirection: 'row', alignItems: 'center', paddingVertical: 4 },
+  stepperLabel: { ...Typography.body, color: Colors.textSecondary, flex: 1 },
+  stepBtn:      { width: 36, height: 36, borderRadius: 18, backgroundColor: Colors.bgInput, justifyContent: 'center', alignItems: 'center' },
+  stepBtnText:  { color: Colors.primary, fontSize: 20, fontWeight: '700' },
+  stepValue:    { ...Typography.h3, width: 40, textAlign: 'center' },
+  linkBtn:      { alignItems: 'center', padding: Spacing.md },
+  linkText:     { color: Colors.primary, fontWeight: '600' },
+  btn:          { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center', marginTop: Spacing.sm },
+  btnText:      { color: '#fff', fontSize: 16, fontWeight: '700' },
+  shareTitle:   { ...Typography.h3, marginBottom: 4 },
+  shareHint:    { ...Typography.caption, lineHeight: 18, marginBottom: Spacing.md },
+  grid:         { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: Spacing.lg },
+  wordCard:     { width: '30%', backgroundColor: Colors.bgCard, borderRadius: Radius.sm, padding: Spacing.sm, alignItems: 'center', borderWidth: 1, borderColor: Colors.border },
+  wordIndex:    { ...Typography.caption, color: Colors.textMuted, marginBottom: 2 },
+  word:         { ...Typography.body, fontWeight: '600', fontFamily: 'monospace' },
+});
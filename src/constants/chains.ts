@@ -6,6 +6,9 @@ export interface Chain {
   explorerUrl: string;
   iconColor: string;
   decimals: number;
+  coingeckoId: string;        // native asset id for fiat prices
+  coingeckoPlatform: string;  // asset platform id for token prices
+  minPriorityFeeGwei?: number; // validators reject tips below this
   isTestnet?: boolean;
 }
 
@@ -18,6 +21,8 @@ export const CHAINS: Record<string, Chain> = {
     explorerUrl: 'https://etherscan.io',
     iconColor: '#627EEA',
     decimals: 18,
+    coingeckoId: 'ethereum',
+    coingeckoPlatform: 'ethereum',
   },
   bsc: {
     id: 56,
@@ -27,6 +32,8 @@ export const CHAINS: Record<string, Chain> = {
     explorerUrl: 'https://bscscan.com',
     iconColor: '#F0B90B',
     decimals: 18,
+    coingeckoId: 'binancecoin',
+    coingeckoPlatform: 'binance-smart-chain',
   },
   polygon: {
     id: 137,
@@ -36,6 +43,9 @@ export const CHAINS: Record<string, Chain> = {
     explorerUrl: 'https://polygonscan.com',
     iconColor: '#8247E5',
     decimals: 18,
+    coingeckoId: 'matic-network',
+    coingeckoPlatform: 'polygon-pos',
+    minPriorityFeeGwei: 30,
   },
 };
 
@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import { maxSendable, quoteFor } from '../fees';
+
+const gwei = (n: number) => ethers.parseUnits(String(n), 'gwei');
+const eth  = (n: string) => ethers.parseEther(n);
+
+// Worst case 21000 × 100 gwei = 0.0021 ETH; expected 21000 × 32 gwei
+const fee = quoteFor({ type: 2, maxFeePerGas: gwei(100), maxPriorityFeePerGas: gwei(2), gasLimit: 21_000n }, gwei(30));
+
+describe('maxSendable', () => {
+  it('keeps the worst-case fee back from a native balance', () => {
+    expect(fee.maxCost).toBe(eth('0.0021'));
+    expect(fee.expectedCost).toBe(gwei(32) * 21_000n);
+    expect(maxSendable({ kind: 'native', balance: eth('1') }, fee))
+      .toEqual({ amount: eth('0.9979'), gasShortfall: 0n });
+  });
+
+  it('reports the shortfall when the balance cannot cover the fee', () => {
+    expect(maxSendable({ kind: 'native', balance: eth('0.002') }, fee))
+      .toEqual({ amount: 0n, gasShortfall: eth('0.0001') });
+    // Exactly the fee leaves nothing to send, but nothing is missing either
+    expect(maxSendable({ kind: 'native', balance: eth('0.0021') }, fee))
+      .toEqual({ amount: 0n, gasShortfall: 0n });
+  });
+
+  it('sends the whole token balance when native gas covers the fee', () => {
+    expect(maxSendable({ kind: 'token', balance: 1_500_000n, nativeBalance: eth('0.01') }, fee))
+      .toEqual({ amount: 1_500_000n, gasShortfall: 0n });
+  });
+
+  it('reports the native gas a token send is missing', () => {
+    expect(maxSendable({ kind: 'token', balance: 1_500_000n, nativeBalance: eth('0.0005') }, fee))
+      .toEqual({ amount: 1_500_000n, gasShortfall: eth('0.0016') });
+  });
+
+  it('uses gas price × limit on legacy chains', () => {
+    const legacy = quoteFor({ type: 0, gasPrice: gwei(5), gasLimit: 21_000n }, null);
+    expect(maxSendable({ kind: 'native', balance: eth('0.1') }, legacy))
+      .toEqual({ amount: eth('0.1') - gwei(5) * 21_000n, gasShortfall: 0n });
+  });
+});
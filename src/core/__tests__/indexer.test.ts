@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import type { ChainKey } from '../../constants/chains';
+
+type Indexer      = typeof import('../indexer');
+type Transactions = typeof import('../transactions');
+
+const ME    = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const GAS_COST = 10n ** 15n;
+
+interface StubTx {
+  hash: string;
+  from: string;
+  to: string;
+  value: bigint;
+  block: number;
+  status?: 0 | 1;
+}
+
+interface StubLog {
+  from: string;
+  to: string;
+  amount: bigint;
+  block: number;
+  hash: string;
+}
+
+// A chain of `latest` blocks holding the given transactions and token
+// transfers, recording which blocks and receipts the indexer asked for.
+// `code` is what the watched address has deployed, if anything.
+function stubChain(latest: number, txs: StubTx[], logs: StubLog[] = [], code = '0x') {
+  const fullBlocks: number[] = [];
+  const receipts: string[] = [];
+  const settled = (n: number) => txs.filter(t => t.block <= n);
+  const succeeded = (t: StubTx) => (t.status ?? 1) === 1;
+  const padded = (a: string) => ethers.zeroPadValue(a, 32).toLowerCase();
+
+  const provider = {
+    getBlockNumber: async () => latest,
+    getBlock: async (n: number, prefetch?: boolean) => {
+      if (prefetch) fullBlocks.push(n);
+      return { number: n, timestamp: 1_700_000_000 + n * 12, prefetchedTransactions: txs.filter(t => t.block === n) };
+    },
+    getTransactionReceipt: async (hash: string) => {
+      receipts.push(hash);
+      const tx = txs.find(t => t.hash === hash)!;
+      return { hash, status: tx.status ?? 1 };
+    },
+    getCode: async () => code,
+    getTransactionCount: async (_address: string, n: number) =>
+      settled(n).filter(t => t.from === ME).length,
+    getBalance: async (_address: string, n: number) =>
+      settled(n).reduce((balance, t) => {
+        if (t.to === ME && succeeded(t)) balance += t.value;
+        if (t.from === ME) balance -= GAS_COST + (succeeded(t) ? t.value : 0n);
+        return balance;
+      }, 10n ** 19n),
+    getLogs: async ({ fromBlock, toBlock, topics }: ethers.Filter) => logs
+      .filter(l => l.block >= Number(fromBlock) && l.block <= Number(toBlock))
+      .filter(l => (!topics![1] || topics![1] === padded(l.from)) && (!topics![2] || topics![2] === padded(l.to)))
+      .map(l => ({
+        index: logs.indexOf(l),
+        address: TOKEN,
+        topics: [TRANSFER_TOPIC, padded(l.from), padded(l.to)],
+        data: ethers.toBeHex(l.amount, 32),
+        blockNumber: l.block,
+        transactionHash: l.hash,
+      })),
+    // symbol() and decimals() of TOKEN
+    call: async ({ data }: { data: string }) => {
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      return data.startsWith(ethers.id('symbol()').slice(0, 10))
+        ? coder.encode(['string'], ['TKN'])
+        : coder.encode(['uint8'], [6]);
+    },
+  };
+  return { provider: provider as unknown as ethers.Provider, fullBlocks, receipts };
+}
+
+const offline = {
+  getBlockNumber: jest.fn(async () => { throw new Error('network down'); }),
+} as unknown as ethers.Provider;
+
+describe('indexer', () => {
+  let indexer: Indexer;
+  let transactions: Transactions;
+
+  beforeEach(() => {
+    jest.resetModules();
+    indexer = require('../indexer');
+    transactions = require('../transactions');
+    (offline.getBlockNumber as jest.Mock).mockClear();
+  });
+
+  it('records native and token transfers and saves the cursor', async () => {
+    const chain = stubChain(120, [
+      { hash: '0xin', from: OTHER, to: ME, value: 5n * 10n ** 17n, block: 80 },
+      { hash: '0xelse', from: OTHER, to: TOKEN, value: 1n, block: 85 },
+      { hash: '0xout', from: ME, to: OTHER, value: 10n ** 17n, block: 100 },
+      { hash: '0xrevert', from: ME, to: TOKEN, value: 10n ** 17n, block: 101, status: 0 },
+    ], [
+      { from: OTHER, to: ME, amount: 2_500_000n, block: 90, hash: '0xtoken' },
+    ]);
+    const backend = indexer.createLogScanBackend((k: ChainKey) => (k === 'ethereum' ? chain.provider : offline));
+
+    const found = await indexer.syncTransfers(ME, backend);
+
+    expect(found).toHaveLength(3);
+    expect(found).toEqual(expect.arrayContaining([
+      expect.objectContaining({ hash: '0xin', type: 'receive', amount: String(5n * 10n ** 17n), chainKey: 'ethereum' }),
+      expect.objectContaining({ hash: '0xout', type: 'send', to: OTHER, status: 'confirmed' }),
+      expect.objectContaining({
+        hash: '0xtoken',
+        type: 'receive',
+        amount: '2500000',
+        asset: { symbol: 'TKN', decimals: 6, contractAddress: TOKEN },
+        timestamp: (1_700_000_000 + 90 * 12) * 1000,
+      }),
+    ]));
+    // Chains that failed keep no cursor; ethereum scanned its first window
+    await expect(transactions.loadIndexerCursors(ME)).resolves.toEqual({ ethereum: 120 });
+  });
+
+  it('fetches only blocks where the account moved, and receipts only for sends', async () => {
+    const chain = stubChain(120, [
+      { hash: '0xin', from: OTHER, to: ME, value: 1n, block: 80 },
+      { hash: '0xout', from: ME, to: OTHER, value: 1n, block: 100 },
+    ]);
+    const backend = indexer.createLogScanBackend(() => chain.provider);
+
+    await backend.scan('ethereum', ME, 71, 120);
+
+    expect(chain.fullBlocks).toEqual(expect.arrayContaining([80, 100]));
+    expect(chain.fullBlocks.length).toBeLessThanOrEqual(8);
+    expect(chain.receipts).toEqual(['0xout']);
+  });
+
+  it('checks incoming payments to a contract address, which can revert', async () => {
+    const chain = stubChain(120, [
+      { hash: '0xin', from: OTHER, to: ME, value: 1n, block: 80 },
+      // Same block, so its body is fetched either way
+      { hash: '0xrejected', from: OTHER, to: ME, value: 1n, block: 80, status: 0 },
+    ], [], '0x6080');
+    const backend = indexer.createLogScanBackend(() => chain.provider);
+
+    const found = await backend.scan('ethereum', ME, 71, 120);
+
+    expect(found.map(t => t.hash)).toEqual(['0xin']);
+    expect(chain.receipts).toEqual(['0xin', '0xrejected']);
+  });
+
+  it('records a token transfer to self once', async () => {
+    const chain = stubChain(120, [], [{ from: ME, to: ME, amount: 7n, block: 90, hash: '0xself' }]);
+    const backend = indexer.createLogScanBackend(() => chain.provider);
+
+    const found = await backend.scan('ethereum', ME, 71, 120);
+
+    expect(found).toEqual([expect.objectContaining({ hash: '0xself', from: ME, to: ME, amount: '7' })]);
+  });
+
+  it('continues from the saved cursor', async () => {
+    await transactions.saveIndexerCursors(ME, { ethereum: 110 });
+    const chain = stubChain(130, [{ hash: '0xin', from: OTHER, to: ME, value: 1n, block: 105 }]);
+    const backend = indexer.createLogScanBackend((k: ChainKey) => (k === 'ethereum' ? chain.provider : offline));
+
+    await expect(indexer.syncTransfers(ME, backend)).resolves.toEqual([]);
+    await expect(transactions.loadIndexerCursors(ME)).resolves.toEqual({ ethereum: 130 });
+  });
+
+  it('catches up on token logs alone once the cursor is older than the node keeps state', async () => {
+    await transactions.saveIndexerCursors(ME, { ethereum: 100 });
+    const chain = stubChain(1000, [
+      { hash: '0xold', from: OTHER, to: ME, value: 1n, block: 300 },
+      { hash: '0xnew', from: OTHER, to: ME, value: 1n, block: 920 },
+    ], [
+      { from: OTHER, to: ME, amount: 1n, block: 300, hash: '0xtoken' },
+    ]);
+    const backend = indexer.createLogScanBackend((k: ChainKey) => (k === 'ethereum' ? chain.provider : offline));
+
+    const found = await indexer.syncTransfers(ME, backend);
+
+    expect(found.map(t => t.hash).sort()).toEqual(['0xnew', '0xtoken']);
+    expect(Math.min(...chain.fullBlocks)).toBeGreaterThan(900);
+    // Logs up to the state window, then the usual ethereum run inside it
+    await expect(transactions.loadIndexerCursors(ME)).resolves.toEqual({ ethereum: 950 });
+  });
+
+  it('backs off a failing chain', async () => {
+    const chain = stubChain(120, []);
+    const backend = indexer.createLogScanBackend((k: ChainKey) => (k === 'ethereum' ? chain.provider : offline));
+    const now = jest.spyOn(Date, 'now');
+    const start = Date.now();
+
+    await indexer.syncTransfers(ME, backend);
+    expect(offline.getBlockNumber).toHaveBeenCalledTimes(2);  // bsc and polygon
+
+    // Next poll: skipped
+    now.mockReturnValue(start + 60_000);
+    await indexer.syncTransfers(ME, backend);
+    expect(offline.getBlockNumber).toHaveBeenCalledTimes(2);
+
+    // After the first backoff of two poll intervals: retried
+    now.mockReturnValue(start + 121_000);
+    await indexer.syncTransfers(ME, backend);
+    expect(offline.getBlockNumber).toHaveBeenCalledTimes(4);
+    now.mockRestore();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  encryptKeystore, decryptKeystore, InvalidKeystorePasswordError, UnsupportedKeystoreError,
+} from '../keystore';
+
+const PASSWORD = 'correct horse';
+const account  = ethers.Wallet.createRandom();
+
+// scrypt runs in JS
+jest.setTimeout(60_000);
+
+describe('keystore', () => {
+  it('round-trips an exported file and rejects a wrong password', async () => {
+    const json = await encryptKeystore({ address: account.address, privateKey: account.privateKey }, PASSWORD);
+
+    await expect(decryptKeystore(json, PASSWORD))
+      .resolves.toEqual({ address: account.address, privateKey: account.privateKey });
+    await expect(decryptKeystore(json, 'wrong password')).rejects.toBeInstanceOf(InvalidKeystorePasswordError);
+  });
+
+  it('rejects malformed files before any key derivation', async () => {
+    const valid = {
+      version: 3,
+      crypto: {
+        cipher: 'aes-128-ctr',
+        ciphertext: 'ab'.repeat(32),
+        cipherparams: { iv: 'cd'.repeat(16) },
+        kdf: 'scrypt',
+        kdfparams: { n: 2, r: 1, p: 1, dklen: 32, salt: 'ef'.repeat(32) },
+        mac: '01'.repeat(32),
+      },
+    };
+    const withCrypto = (crypto: object) => JSON.stringify({ ...valid, crypto: { ...valid.crypto, ...crypto } });
+    const cases: [string, string][] = [
+      ['null', 'only version 3'],
+      [JSON.stringify({ ...valid, crypto: 'aes' }), 'missing crypto section'],
+      [withCrypto({ cipherparams: {} }), 'missing cipher IV'],
+      [withCrypto({ mac: 42 }), 'missing MAC'],
+      [withCrypto({ kdfparams: 'scrypt' }), 'missing key derivation parameters'],
+      [withCrypto({ kdfparams: { ...valid.crypto.kdfparams, n: '16' } }), 'scrypt N 16'],
+      [withCrypto({ kdfparams: { ...valid.crypto.kdfparams, n: 1 << 22, r: 8 } }), 'too much memory'],
+    ];
+    for (const [json, reason] of cases) {
+      await expect(decryptKeystore(json, PASSWORD)).rejects.toThrow(UnsupportedKeystoreError);
+      await expect(decryptKeystore(json, PASSWORD)).rejects.toThrow(reason);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import EncryptedStorage from 'react-native-encrypted-storage';
+import { savePinVerifier } from '../wallet';
+import {
+  attemptPin, attemptBiometricPin, getLockoutState, setWipePolicy, failureMessage, PinAttemptResult,
+} from '../lockout';
+import { isBiometricEnabled } from '../biometrics';
+
+// scrypt runs in JS
+jest.setTimeout(60_000);
+
+const PIN   = '123456';
+const WRONG = '000000';
+const MIN   = 60 * 1000;
+
+beforeEach(async () => {
+  await savePinVerifier(PIN);
+});
+
+describe('attemptBiometricPin', () => {
+  it('unlocks with the stored PIN', async () => {
+    await expect(attemptBiometricPin(PIN)).resolves.toEqual({ status: 'ok' });
+  });
+
+  it('drops a stale credential without counting a failure', async () => {
+    // Wrapped PIN left over from before an interrupted PIN change
+    await EncryptedStorage.setItem('biometric_pin', '{}');
+    await expect(attemptBiometricPin('654321')).resolves.toEqual({ status: 'stale' });
+    await expect(isBiometricEnabled()).resolves.toBe(false);
+    await expect(getLockoutState()).resolves.toEqual({ failures: 0, lockedUntil: 0 });
+  });
+});
+
+describe('lockout schedule', () => {
+  let clock: number;
+
+  beforeEach(() => {
+    clock = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const fail = async () => (await attemptPin(WRONG)) as Extract<PinAttemptResult, { status: 'wrong' }>;
+
+  it('allows five attempts, then locks for 30s, 5 min and 1 h', async () => {
+    for (let i = 1; i <= 4; i++) {
+      await expect(fail()).resolves.toMatchObject({ status: 'wrong', failures: i, remaining: 5 - i, lockedUntil: 0 });
+    }
+    await expect(fail()).resolves.toMatchObject({ failures: 5, remaining: 0, lockedUntil: clock + 30 * 1000 });
+
+    clock += 30 * 1000;
+    await expect(fail()).resolves.toMatchObject({ failures: 6, lockedUntil: clock + 5 * MIN });
+
+    clock += 5 * MIN;
+    await expect(fail()).resolves.toMatchObject({ failures: 7, lockedUntil: clock + 60 * MIN });
+
+    // The last step repeats
+    clock += 60 * MIN;
+    await expect(fail()).resolves.toMatchObject({ failures: 8, lockedUntil: clock + 60 * MIN });
+  });
+
+  it('refuses every PIN while locked without counting it', async () => {
+    for (let i = 0; i < 5; i++) await fail();
+    const { lockedUntil } = await getLockoutState();
+
+    clock += 29 * 1000;
+    await expect(attemptPin(PIN)).resolves.toEqual({ status: 'locked', lockedUntil });
+    await expect(attemptPin(WRONG)).resolves.toEqual({ status: 'locked', lockedUntil });
+    await expect(getLockoutState()).resolves.toEqual({ failures: 5, lockedUntil });
+
+    clock += 1000;
+    await expect(attemptPin(PIN)).resolves.toEqual({ status: 'ok' });
+    await expect(getLockoutState()).resolves.toEqual({ failures: 0, lockedUntil: 0 });
+  });
+
+  it('wipes after the opted-in number of failures', async () => {
+    await setWipePolicy(3);
+    const first = await fail();
+    expect(first.wipeIn).toBe(2);
+    expect(failureMessage(first)).toContain('erased after 2 more failed attempts');
+    await fail();
+
+    await expect(attemptPin(WRONG)).resolves.toEqual({ status: 'wiped' });
+    await expect(getLockoutState()).resolves.toEqual({ failures: 0, lockedUntil: 0 });
+  });
+});
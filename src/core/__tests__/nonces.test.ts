@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { ethers } from 'ethers';
+
+type Nonces = typeof import('../nonces');
+
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+// A signer whose node reports `pending` as the account's pending nonce
+function stubSigner(pending: { value: number }) {
+  return {
+    address: ADDRESS,
+    getNonce: jest.fn(async () => pending.value),
+  } as unknown as ethers.Wallet;
+}
+
+describe('nonces', () => {
+  let nonces: Nonces;
+  let clock: number;
+  const node = { value: 7 };
+  let signer: ethers.Wallet;
+
+  beforeEach(() => {
+    jest.resetModules();
+    nonces = require('../nonces');
+    node.value = 7;
+    signer = stubSigner(node);
+    clock = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('hands out consecutive nonces ahead of a lagging node', async () => {
+    const [a, b, c] = await Promise.all([
+      nonces.reserveNonce('ethereum', signer),
+      nonces.reserveNonce('ethereum', signer),
+      nonces.reserveNonce('ethereum', signer),
+    ]);
+    expect([a, b, c]).toEqual([7, 8, 9]);
+  });
+
+  it('keeps separate counts per chain', async () => {
+    await expect(nonces.reserveNonce('ethereum', signer)).resolves.toBe(7);
+    await expect(nonces.reserveNonce('polygon', signer)).resolves.toBe(7);
+  });
+
+  it('reuses a released nonce before allocating a new one', async () => {
+    const a = await nonces.reserveNonce('ethereum', signer);
+    const b = await nonces.reserveNonce('ethereum', signer);
+    const c = await nonces.reserveNonce('ethereum', signer);
+    nonces.confirmNonce('ethereum', ADDRESS);
+    nonces.releaseNonce('ethereum', ADDRESS, b);
+    nonces.confirmNonce('ethereum', ADDRESS);
+    expect([a, c]).toEqual([7, 9]);
+
+    await expect(nonces.reserveNonce('ethereum', signer)).resolves.toBe(8);
+    await expect(nonces.reserveNonce('ethereum', signer)).resolves.toBe(10);
+  });
+
+  it('shrinks the count when the highest nonce is released', async () => {
+    const a = await nonces.reserveNonce('ethereum', signer);
+    nonces.confirmNonce('ethereum', ADDRESS);
+    const b = await nonces.reserveNonce('ethereum', signer);
+    nonces.releaseNonce('ethereum', ADDRESS, b);
+
+    expect([a, b]).toEqual([7, 8]);
+    await expect(nonces.reserveNonce('ethereum', signer)).resolves.toBe(8);
+  });
+
+  it('follows the node when it is ahead', async () => {
+    await nonces.reserveNonce('ethereum', signer);
+    nonces.confirmNonce('ethereum', ADDRESS);
+
+    // Another wallet sent from the same account
+    node.value = 12;
+    await expect(nonces.reserveNonce('ethereum', signer)).resolves.toBe(12);
+  });
+
+  it('falls back to the node once our broadcasts should have shown up', async () => {
+    await nonces.reserveNonce('ethereum', signer);
+    nonces.confirmNonce('ethereum', ADDRESS);
+    await nonces.reserveNonce('ethereum', signer);
+    nonces.confirmNonce('ethereum', ADDRESS);
+
+    // Still within the grace period: trust our own count
+    clock += 30_000;
+    await expect(nonces.reserveNonce('ethereum', signer)).resolves.toBe(9);
+    nonces.releaseNonce('ethereum', ADDRESS, 9);
+
+    // Both transactions were dropped; the node never saw them
+    clock += 60_000;
+    await expect(nonces.reserveNonce('ethereum', signer)).resolves.toBe(7);
+  });
+
+  it('withNonce confirms on success and releases on failure', async () => {
+    await expect(nonces.withNonce('ethereum', signer, async (n) => n)).resolves.toBe(7);
+    await expect(nonces.withNonce('ethereum', signer, async () => {
+      throw new Error('rejected');
+    })).rejects.toThrow('rejected');
+
+    await expect(nonces.reserveNonce('ethereum', signer)).resolves.toBe(8);
+  });
+});
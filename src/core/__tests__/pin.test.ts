@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+type Wallet  = typeof import('../wallet');
+type Lockout = typeof import('../lockout');
+
+// Fresh module instances over the same (mocked) keychain and storage, as after
+// a cold start.
+function launch(): { wallet: Wallet; lockout: Lockout } {
+  jest.resetModules();
+  return { wallet: require('../wallet'), lockout: require('../lockout') };
+}
+
+// scrypt runs in JS
+jest.setTimeout(60_000);
+
+describe('PIN verifier', () => {
+  let wallet: Wallet;
+  let lockout: Lockout;
+
+  beforeEach(async () => {
+    ({ wallet, lockout } = launch());
+    await wallet.savePinVerifier('123456');
+  });
+
+  it('accepts the correct PIN', async () => {
+    await expect(wallet.verifyPin('123456')).resolves.toBe(true);
+    await expect(lockout.attemptPin('123456')).resolves.toEqual({ status: 'ok' });
+  });
+
+  it('rejects a wrong PIN and counts the failure', async () => {
+    await expect(wallet.verifyPin('654321')).resolves.toBe(false);
+    const result = await lockout.attemptPin('000000');
+    expect(result).toMatchObject({ status: 'wrong', failures: 1, remaining: 4 });
+  });
+
+  it('keeps working after a restart', async () => {
+    await lockout.attemptPin('000000');
+
+    ({ wallet, lockout } = launch());
+    await expect(wallet.verifyPin('123456')).resolves.toBe(true);
+    await expect(wallet.verifyPin('111111')).resolves.toBe(false);
+    // The failure from the previous launch is still counted
+    await expect(lockout.getLockoutState()).resolves.toMatchObject({ failures: 1 });
+    await expect(lockout.attemptPin('123456')).resolves.toEqual({ status: 'ok' });
+    await expect(lockout.getLockoutState()).resolves.toMatchObject({ failures: 0 });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { replacementFees, replacementAction } from '../replace';
+import { estimateFees, quoteFor, FeeEstimate, FeeParams } from '../fees';
+import { signingPolicy } from '../session';
+import type { Transaction } from '../transactions';
+
+jest.mock('../fees', () => ({
+  ...jest.requireActual<object>('../fees'),
+  estimateFees: jest.fn(),
+}));
+
+const estimate = estimateFees as jest.MockedFunction<typeof estimateFees>;
+
+const ME    = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const gwei  = (n: number | string) => ethers.parseUnits(String(n), 'gwei');
+
+function pending(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    hash: '0xaa',
+    from: ME,
+    to: OTHER,
+    amount: String(ethers.parseEther('1')),
+    asset: { symbol: 'ETH', decimals: 18 },
+    timestamp: 1,
+    status: 'pending',
+    type: 'send',
+    chainKey: 'ethereum',
+    nonce: 4,
+    fees: { type: 2, maxFeePerGas: String(gwei(100)), maxPriorityFeePerGas: String(gwei(2)), gasLimit: '65000' },
+    ...overrides,
+  };
+}
+
+// The oracle's fast preset is all replacementFees() reads
+function fastPreset(params: FeeParams, baseFee: bigint | null = gwei(20)) {
+  const quote = quoteFor(params, baseFee);
+  estimate.mockResolvedValue({
+    chainKey: 'ethereum',
+    eip1559: params.type === 2,
+    baseFee,
+    gasLimit: params.gasLimit,
+    quotes: { slow: quote, normal: quote, fast: quote },
+  } as FeeEstimate);
+}
+
+describe('replacementFees', () => {
+  beforeEach(() => {
+    estimate.mockReset();
+  });
+
+  it('bumps both EIP-1559 fields by 10% when the market is quieter', async () => {
+    fastPreset({ type: 2, maxFeePerGas: gwei(50), maxPriorityFeePerGas: gwei(1), gasLimit: 21_000n });
+
+    const { params } = await replacementFees(pending(), 'speedUp');
+
+    expect(params).toEqual({ type: 2, maxFeePerGas: gwei(110), maxPriorityFeePerGas: gwei('2.2'), gasLimit: 65_000n });
+  });
+
+  it('follows the fast preset when it beats the bump', async () => {
+    fastPreset({ type: 2, maxFeePerGas: gwei(300), maxPriorityFeePerGas: gwei(5), gasLimit: 21_000n });
+
+    const { params, maxCost } = await replacementFees(pending(), 'speedUp');
+
+    expect(params).toEqual({ type: 2, maxFeePerGas: gwei(300), maxPriorityFeePerGas: gwei(5), gasLimit: 65_000n });
+    expect(maxCost).toBe(gwei(300) * 65_000n);
+  });
+
+  it('keeps the max fee at or above the bumped tip', async () => {
+    fastPreset({ type: 2, maxFeePerGas: gwei(1), maxPriorityFeePerGas: gwei(20), gasLimit: 21_000n });
+    const tx = pending({
+      fees: { type: 2, maxFeePerGas: String(gwei(10)), maxPriorityFeePerGas: String(gwei(10)), gasLimit: '21000' },
+    });
+
+    const { params } = await replacementFees(tx, 'speedUp');
+
+    expect(params).toMatchObject({ maxFeePerGas: gwei(20), maxPriorityFeePerGas: gwei(20) });
+  });
+
+  it('rounds a legacy gas price bump up', async () => {
+    fastPreset({ type: 0, gasPrice: 1n, gasLimit: 21_000n }, null);
+    const tx = pending({ fees: { type: 0, gasPrice: '7', gasLimit: '21000' } });
+
+    const { params } = await replacementFees(tx, 'speedUp');
+
+    // 7 × 1.1 = 7.7; rounding down would fall short of the node's 10% rule
+    expect(params).toEqual({ type: 0, gasPrice: 8n, gasLimit: 21_000n });
+  });
+
+  it('uses a legacy quote as the floor for both EIP-1559 fields', async () => {
+    fastPreset({ type: 0, gasPrice: gwei(150), gasLimit: 21_000n }, null);
+
+    const { params } = await replacementFees(pending(), 'speedUp');
+
+    expect(params).toMatchObject({ maxFeePerGas: gwei(150), maxPriorityFeePerGas: gwei(150) });
+  });
+
+  it('prices a cancel as a plain transfer', async () => {
+    fastPreset({ type: 2, maxFeePerGas: gwei(50), maxPriorityFeePerGas: gwei(1), gasLimit: 21_000n });
+
+    const { params } = await replacementFees(pending(), 'cancel');
+
+    expect(params.gasLimit).toBe(21_000n);
+    expect(params).toMatchObject({ maxFeePerGas: gwei(110) });
+  });
+
+  it('refuses a transaction that is no longer pending', async () => {
+    await expect(replacementFees(pending({ status: 'confirmed' }), 'speedUp'))
+      .rejects.toThrow('This transaction can no longer be replaced');
+    expect(estimate).not.toHaveBeenCalled();
+  });
+});
+
+describe('replacementAction', () => {
+  it('weighs a cancel by the value it stops', () => {
+    const large = pending({ amount: String(ethers.parseEther('1')) });
+    const small = pending({ amount: String(ethers.parseEther('0.01')) });
+    expect(signingPolicy(replacementAction(large))).toBe('pin');
+    expect(signingPolicy(replacementAction(small))).toBe('session');
+  });
+
+  it('always asks for the PIN for token transfers and approvals', () => {
+    const token = pending({ amount: '1', asset: { symbol: 'USDC', decimals: 6, contractAddress: OTHER } });
+    const approve = pending({ type: 'approve', amount: '0' });
+    expect(signingPolicy(replacementAction(token))).toBe('pin');
+    expect(signingPolicy(replacementAction(approve))).toBe('pin');
+  });
+});
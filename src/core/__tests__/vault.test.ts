@@ -0,0 +1,99 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import * as Keychain from 'react-native-keychain';
+import QuickCrypto from 'react-native-quick-crypto';
+import { ethers } from 'ethers';
+import {
+  encryptVault, decryptVault, parseVault, isLegacyVault, decryptLegacyVault, InvalidPinError,
+} from '../vault';
+import { loadMnemonic } from '../wallet';
+
+const PIN = '123456';
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const SERVICE  = 'com.trustclone.mnemonic.w1';
+
+// The pre-vault format: the PIN repeated as an XOR key, base64-encoded
+function legacyBlob(secret: string, pin: string): string {
+  const key = pin.repeat(Math.ceil(secret.length / pin.length));
+  const xored = Array.from(secret, (c, i) => String.fromCharCode(c.charCodeAt(0) ^ key.charCodeAt(i))).join('');
+  return Buffer.from(xored, 'binary').toString('base64');
+}
+
+// scrypt runs in JS
+jest.setTimeout(60_000);
+
+describe('vault envelope', () => {
+  it('round-trips under the same PIN', async () => {
+    const blob = await encryptVault(MNEMONIC, PIN);
+    expect(parseVault(blob)).toMatchObject({ version: 1, kdf: 'scrypt', cipher: 'aes-256-gcm' });
+    expect(isLegacyVault(blob)).toBe(false);
+    await expect(decryptVault(blob, PIN)).resolves.toBe(MNEMONIC);
+  });
+
+  it('rejects a wrong PIN and a tampered ciphertext', async () => {
+    const blob = await encryptVault(MNEMONIC, PIN);
+    await expect(decryptVault(blob, '654321')).rejects.toBeInstanceOf(InvalidPinError);
+
+    const envelope = parseVault(blob)!;
+    const flipped = (parseInt(envelope.ciphertext.slice(0, 2), 16) ^ 1).toString(16).padStart(2, '0');
+    const tampered = JSON.stringify({ ...envelope, ciphertext: flipped + envelope.ciphertext.slice(2) });
+    await expect(decryptVault(tampered, PIN)).rejects.toBeInstanceOf(InvalidPinError);
+  });
+
+  it('uses a fresh salt and IV for every encryption', async () => {
+    const a = parseVault(await encryptVault(MNEMONIC, PIN))!;
+    const b = parseVault(await encryptVault(MNEMONIC, PIN))!;
+    expect(a.kdfParams.salt).not.toBe(b.kdfParams.salt);
+    expect(a.iv).not.toBe(b.iv);
+  });
+
+  it('decrypts PBKDF2 envelopes', async () => {
+    const salt = Buffer.from(ethers.randomBytes(16));
+    const iv   = Buffer.from(ethers.randomBytes(12));
+    const key  = QuickCrypto.pbkdf2Sync(PIN, salt, 1000, 32, 'sha256');
+    const cipher = QuickCrypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = cipher.update(MNEMONIC, 'utf8', 'hex') + cipher.final('hex');
+    const blob = JSON.stringify({
+      version: 1,
+      kdf: 'pbkdf2',
+      kdfParams: { iterations: 1000, digest: 'sha256', dkLen: 32, salt: salt.toString('hex') },
+      cipher: 'aes-256-gcm',
+      iv: iv.toString('hex'),
+      tag: Buffer.from(cipher.getAuthTag()).toString('hex'),
+      ciphertext,
+    });
+    await expect(decryptVault(blob, PIN)).resolves.toBe(MNEMONIC);
+  });
+
+  it('refuses unknown versions', async () => {
+    expect(parseVault(JSON.stringify({ version: 2 }))).toBeNull();
+    await expect(decryptVault(JSON.stringify({ version: 2 }), PIN)).rejects.toThrow('Unrecognised vault format');
+  });
+});
+
+describe('legacy XOR migration', () => {
+  it('decodes the v0 format', () => {
+    const blob = legacyBlob(MNEMONIC, PIN);
+    expect(isLegacyVault(blob)).toBe(true);
+    expect(decryptLegacyVault(blob, PIN)).toBe(MNEMONIC);
+  });
+
+  it('upgrades a legacy blob to a vault envelope on the first unlock', async () => {
+    await Keychain.setGenericPassword(SERVICE, legacyBlob(MNEMONIC, PIN), { service: SERVICE });
+
+    await expect(loadMnemonic('w1', PIN)).resolves.toBe(MNEMONIC);
+
+    const stored = await Keychain.getGenericPassword({ service: SERVICE });
+    expect(stored && parseVault(stored.password)).toMatchObject({ version: 1 });
+    await expect(loadMnemonic('w1', PIN)).resolves.toBe(MNEMONIC);
+  });
+
+  it('leaves the legacy blob alone on a wrong PIN', async () => {
+    const blob = legacyBlob(MNEMONIC, PIN);
+    await Keychain.setGenericPassword(SERVICE, blob, { service: SERVICE });
+
+    await expect(loadMnemonic('w1', '654321')).rejects.toBeInstanceOf(InvalidPinError);
+
+    const stored = await Keychain.getGenericPassword({ service: SERVICE });
+    expect(stored && stored.password).toBe(blob);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import EncryptedStorage from 'react-native-encrypted-storage';
+import { loadWalletMeta, loadWalletMetaById } from '../wallet';
+
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+describe('stored wallet metadata', () => {
+  it('adopts a pre-multi-account record with defaults', async () => {
+    await EncryptedStorage.setItem('wallet_meta', JSON.stringify({ address: ADDRESS, createdAt: 5 }));
+
+    await expect(loadWalletMeta()).resolves.toEqual({
+      id: 'default',
+      type: 'hd',
+      name: 'Wallet 1',
+      address: ADDRESS,
+      accounts: [{ index: 0, name: 'Account 1', address: ADDRESS, hidden: false }],
+      selectedAccount: 0,
+      hasPassphrase: false,
+      createdAt: 5,
+      backupVerified: false,
+    });
+  });
+
+  it('rejects malformed fields instead of passing them on', async () => {
+    const valid = {
+      id: 'w1', type: 'hd', name: 'Main', address: ADDRESS, selectedAccount: 0,
+      accounts: [{ index: 0, name: 'Account 1', address: ADDRESS, hidden: false }],
+      hasPassphrase: false, createdAt: 1, backupVerified: true,
+    };
+    const store = (meta: unknown) => EncryptedStorage.setItem('wallet_meta:w1', JSON.stringify(meta));
+
+    await store(valid);
+    await expect(loadWalletMetaById('w1')).resolves.toEqual(valid);
+
+    await store({ ...valid, type: 'multisig' });
+    await expect(loadWalletMetaById('w1')).rejects.toThrow('(type)');
+
+    await store({ ...valid, accounts: [{ index: '0', name: 'Account 1', address: ADDRESS }] });
+    await expect(loadWalletMetaById('w1')).rejects.toThrow('(index)');
+
+    await store({ ...valid, address: 42 });
+    await expect(loadWalletMetaById('w1')).rejects.toThrow('(address)');
+
+    await store(['w1']);
+    await expect(loadWalletMetaById('w1')).rejects.toThrow('(not an object)');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * autolock.ts — Lock the wallet after inactivity or on backgrounding
+ * The timeout is a user setting persisted in EncryptedStorage. startAutoLock()
+ * watches AppState, touches and typing (ActivityTextInput) and calls onLock
+ * when it expires.
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import EncryptedStorage from 'react-native-encrypted-storage';
+
+// ─── Storage Keys ────────────────────────────────────────────────────────────
+const AUTO_LOCK_KEY = 'auto_lock_timeout';
+
+// ─── Setting ─────────────────────────────────────────────────────────────────
+// 0 locks as soon as the app is backgrounded
+export type AutoLockTimeout = 0 | 60_000 | 300_000 | 3_600_000;
+
+export const AUTO_LOCK_OPTIONS: { value: AutoLockTimeout; label: string }[] = [
+  { value: 0,         label: 'Immediately' },
+  { value: 60_000,    label: '1 min' },
+  { value: 300_000,   label: '5 min' },
+  { value: 3_600_000, label: '1 hour' },
+];
+
+export const DEFAULT_AUTO_LOCK: AutoLockTimeout = 60_000;
+
+// Idle is checked on a timer, so a lock lands up to this much late
+const IDLE_CHECK_MS = 10_000;
+
+let timeout: AutoLockTimeout = DEFAULT_AUTO_LOCK;
+let lastActivity = Date.now();
+let suspended = 0;
+
+export async function getAutoLockTimeout(): Promise<AutoLockTimeout> {
+  const raw = await EncryptedStorage.getItem(AUTO_LOCK_KEY);
+  const value = raw === null ? DEFAULT_AUTO_LOCK : Number(raw);
+  return AUTO_LOCK_OPTIONS.some(o => o.value === value) ? value as AutoLockTimeout : DEFAULT_AUTO_LOCK;
+}
+
+export async function setAutoLockTimeout(value: AutoLockTimeout): Promise<void> {
+  await EncryptedStorage.setItem(AUTO_LOCK_KEY, String(value));
+  timeout = value;
+  lastActivity = Date.now();
+}
+
+// ─── Activity ────────────────────────────────────────────────────────────────
+export function recordActivity(): void {
+  lastActivity = Date.now();
+}
+
+// Share sheets and file pickers background the app; do not lock underneath them.
+export async function withAutoLockSuspended<T>(action: () => Promise<T>): Promise<T> {
+  suspended++;
+  try {
+    return await action();
+  } finally {
+    suspended--;
+    lastActivity = Date.now();
+  }
+}
+
+// ─── Lock manager ────────────────────────────────────────────────────────────
+// Only 'background' counts: iOS reports 'inactive' for Face ID prompts and
+// the notification shade. Returns a function that stops the manager.
+export function startAutoLock(onLock: () => void): () => void {
+  let backgroundedAt: number | null = null;
+  getAutoLockTimeout().then(t => { timeout = t; }).catch(() => {});
+
+  const onChange = (state: AppStateStatus) => {
+    if (suspended > 0) return;
+    if (state === 'background') {
+      if (timeout === 0) onLock();
+      else backgroundedAt = Date.now();
+    } else if (state === 'active') {
+      if (backgroundedAt !== null && Date.now() - backgroundedAt >= timeout) onLock();
+      backgroundedAt = null;
+      lastActivity = Date.now();
+    }
+  };
+
+  const sub = AppState.addEventListener('change', onChange);
+  const id  = setInterval(() => {
+    if (suspended > 0 || timeout === 0 || AppState.currentState !== 'active') return;
+    if (Date.now() - lastActivity >= timeout) {
+      lastActivity = Date.now();
+      onLock();
+    }
+  }, IDLE_CHECK_MS);
+
+  return () => {
+    sub.remove();
+    clearInterval(id);
+  };
+}
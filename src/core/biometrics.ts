@@ -0,0 +1,138 @@
+/**
+ * biometrics.ts — Biometric unlock credential
+ * Opting in creates a random wrapping key in the keychain that only a
+ * currently enrolled fingerprint/face can read (BIOMETRY_CURRENT_SET), and
+ * stores the PIN encrypted under it. Adding or removing a biometric makes the
+ * OS discard the key, which turns the stored PIN into unreadable ciphertext.
+ */
+
+import * as Keychain from 'react-native-keychain';
+import EncryptedStorage from 'react-native-encrypted-storage';
+import ReactNativeBiometrics, { BiometryType } from 'react-native-biometrics';
+import QuickCrypto from 'react-native-quick-crypto';
+import { ethers } from 'ethers';
+
+// ─── Storage Keys ────────────────────────────────────────────────────────────
+const BIOMETRIC_KEY_SERVICE = 'com.trustclone.biometric';
+const WRAPPED_PIN_KEY       = 'biometric_pin';
+
+const rnBiometrics = new ReactNativeBiometrics({ allowDeviceCredentials: false });
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+export class BiometricInvalidatedError extends Error {
+  constructor() {
+    super('Biometric unlock was turned off because your fingerprints or face data changed. Unlock with your PIN and enable it again in Settings.');
+    this.name = 'BiometricInvalidatedError';
+  }
+}
+
+export const STALE_BIOMETRIC_MESSAGE =
+  'Biometric unlock was turned off because it still held your previous PIN. Enter your PIN and enable it again in Settings.';
+
+// ─── Sensor ──────────────────────────────────────────────────────────────────
+// Returns a display label ("Face ID", "Touch ID", "Biometrics") or null when
+// no sensor is available or nothing is enrolled.
+export async function getBiometryLabel(): Promise<string | null> {
+  const { available, biometryType } = await rnBiometrics.isSensorAvailable();
+  if (!available || !biometryType) return null;
+  const labels: Record<BiometryType, string> = {
+    FaceID: 'Face ID', TouchID: 'Touch ID', Biometrics: 'Biometrics',
+  };
+  return labels[biometryType];
+}
+
+// ─── Setting ─────────────────────────────────────────────────────────────────
+export async function isBiometricEnabled(): Promise<boolean> {
+  return !!(await EncryptedStorage.getItem(WRAPPED_PIN_KEY));
+}
+
+// Label for the prompt button when biometric unlock is on and usable.
+export async function getBiometricUnlockLabel(): Promise<string | null> {
+  return (await isBiometricEnabled()) ? getBiometryLabel() : null;
+}
+
+// The caller verifies the PIN first. Prompts once so a user who cannot pass
+// the sensor does not end up with a credential they cannot use.
+export async function enableBiometrics(pin: string): Promise<boolean> {
+  const { success } = await rnBiometrics.simplePrompt({ promptMessage: 'Confirm to enable biometric unlock' });
+  if (!success) return false;
+
+  const key = Buffer.from(ethers.randomBytes(32));
+  await Keychain.setGenericPassword('biometric', key.toString('hex'), {
+    service: BIOMETRIC_KEY_SERVICE,
+    accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_CURRENT_SET,
+    accessible: Keychain.ACCESSIBLE.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+  });
+  await EncryptedStorage.setItem(WRAPPED_PIN_KEY, wrap(pin, key));
+  return true;
+}
+
+export async function disableBiometrics(): Promise<void> {
+  await Keychain.resetGenericPassword({ service: BIOMETRIC_KEY_SERVICE });
+  await EncryptedStorage.removeItem(WRAPPED_PIN_KEY);
+}
+
+// Re-wraps the new PIN under the existing key after a PIN change. Shows the
+// prompt; resolves false (and turns biometrics off) if the user cancels.
+export async function rewrapBiometricPin(pin: string): Promise<boolean> {
+  if (!(await isBiometricEnabled())) return true;
+  const key = await readWrappingKey('Confirm to keep biometric unlock');
+  if (!key) {
+    await disableBiometrics();
+    return false;
+  }
+  await EncryptedStorage.setItem(WRAPPED_PIN_KEY, wrap(pin, key));
+  return true;
+}
+
+// ─── Unlock ──────────────────────────────────────────────────────────────────
+// Shows the biometric prompt and returns the PIN, or null when the user
+// cancels. Throws BiometricInvalidatedError (after clearing the credential)
+// when enrollment changed and the key is gone.
+export async function loadBiometricPin(prompt: string): Promise<string | null> {
+  const wrapped = await EncryptedStorage.getItem(WRAPPED_PIN_KEY);
+  if (!wrapped) return null;
+  const key = await readWrappingKey(prompt);
+  if (!key) return null;
+  try {
+    return unwrap(wrapped, key);
+  } catch {
+    await disableBiometrics();
+    throw new BiometricInvalidatedError();
+  }
+}
+
+async function readWrappingKey(prompt: string): Promise<Buffer | null> {
+  let result: false | Keychain.UserCredentials;
+  try {
+    result = await Keychain.getGenericPassword({
+      service: BIOMETRIC_KEY_SERVICE,
+      authenticationPrompt: { title: prompt },
+    });
+  } catch (e: any) {
+    if (/cancel/i.test(String(e?.message))) return null;
+    await disableBiometrics();
+    throw new BiometricInvalidatedError();
+  }
+  if (!result) {
+    await disableBiometrics();
+    throw new BiometricInvalidatedError();
+  }
+  return Buffer.from(result.password, 'hex');
+}
+
+// ─── AES-256-GCM under the wrapping key ──────────────────────────────────────
+function wrap(pin: string, key: Buffer): string {
+  const iv     = Buffer.from(ethers.randomBytes(12));
+  const cipher = QuickCrypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = cipher.update(pin, 'utf8', 'hex') + cipher.final('hex');
+  const tag    = Buffer.from(cipher.getAuthTag()).toString('hex');
+  return JSON.stringify({ iv: iv.toString('hex'), tag, ciphertext });
+}
+
+function unwrap(blob: string, key: Buffer): string {
+  const { iv, tag, ciphertext } = JSON.parse(blob);
+  const decipher = QuickCrypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(tag, 'hex'));
+  return decipher.update(ciphertext, 'hex', 'utf8') + decipher.final('utf8');
+}
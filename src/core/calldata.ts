@@ -0,0 +1,115 @@
+/**
+ * calldata.ts — Decode transaction input for display
+ * Only a fixed set of well-known ABIs is recognized (ERC-20, WETH, Uniswap-style
+ * routers); anything else is shown by its 4-byte selector. No signature
+ * database is queried, so decoding never leaves the device.
+ */
+
+import { ethers } from 'ethers';
+
+const KNOWN_ABIS: { label: string; abi: string[] }[] = [
+  {
+    label: 'ERC-20',
+    abi: [
+      'function transfer(address to, uint256 amount)',
+      'function approve(address spender, uint256 amount)',
+      'function transferFrom(address from, address to, uint256 amount)',
+    ],
+  },
+  {
+    label: 'WETH',
+    abi: [
+      'function deposit()',
+      'function withdraw(uint256 amount)',
+    ],
+  },
+  {
+    label: 'Uniswap V2 Router',
+    abi: [
+      'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+      'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+      'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+      'function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)',
+      'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+      'function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+      'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+      'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+      'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+      'function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)',
+      'function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)',
+      'function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)',
+      'function removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)',
+    ],
+  },
+  {
+    label: 'Uniswap V3 Router',
+    abi: [
+      'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+      'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)',
+      'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params)',
+      'function exactOutput((bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params)',
+      'function multicall(bytes[] data)',
+      'function multicall(uint256 deadline, bytes[] data)',
+    ],
+  },
+  {
+    label: 'Uniswap Universal Router',
+    abi: [
+      'function execute(bytes commands, bytes[] inputs)',
+      'function execute(bytes commands, bytes[] inputs, uint256 deadline)',
+    ],
+  },
+];
+
+const INTERFACES = KNOWN_ABIS.map(({ label, abi }) => ({ label, iface: new ethers.Interface(abi) }));
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+export interface DecodedArg {
+  name: string;
+  type: string;
+  value: string;
+}
+
+export interface DecodedCall {
+  source: string | null;  // which known ABI matched; null when unrecognized
+  method: string;         // function name, or the selector when unrecognized
+  args: DecodedArg[];
+}
+
+// null for plain transfers (no calldata).
+export function decodeCalldata(data: string | null | undefined): DecodedCall | null {
+  if (!data || data === '0x') return null;
+  const selector = ethers.dataSlice(data, 0, 4);
+  for (const { label, iface } of INTERFACES) {
+    let parsed: ethers.TransactionDescription | null;
+    try {
+      parsed = iface.parseTransaction({ data });
+    } catch {
+      continue;
+    }
+    if (!parsed) continue;
+    return {
+      source: label,
+      method: parsed.name,
+      args: parsed.fragment.inputs.map((input, i) => ({
+        name: input.name || `arg${i}`,
+        type: input.type,
+        value: formatArg(parsed!.args[i]),
+      })),
+    };
+  }
+  return { source: null, method: selector, args: [] };
+}
+
+function formatArg(value: unknown): string {
+  if (value === ethers.MaxUint256) return 'Unlimited';
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof ethers.Result) {
+    return `[${value.toArray().map(formatArg).join(', ')}]`;
+  }
+  if (Array.isArray(value)) return `[${value.map(formatArg).join(', ')}]`;
+  if (typeof value === 'string' && ethers.isHexString(value) && value.length > 66) {
+    return `${value.slice(0, 66)}… (${ethers.dataLength(value)} bytes)`;
+  }
+  return String(value);
+}
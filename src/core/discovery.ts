@@ -0,0 +1,111 @@
+/**
+ * discovery.ts — Find used accounts of an imported recovery phrase
+ * Other wallets derive Ethereum accounts on different paths, so an import
+ * scans several path templates and reports which addresses have on-chain
+ * history on any supported chain.
+ */
+
+import { ethers } from 'ethers';
+import { CHAINS, ChainKey } from '../constants/chains';
+import { getNativeBalance, getTransactionCount } from './wallet';
+
+// ─── Path templates ──────────────────────────────────────────────────────────
+export interface PathTemplate {
+  id: string;
+  label: string;
+  path: (index: number) => string;
+}
+
+export const PATH_TEMPLATES: PathTemplate[] = [
+  { id: 'bip44',      label: 'Standard (BIP-44)', path: (i) => `m/44'/60'/0'/0/${i}` },
+  { id: 'ledgerLive', label: 'Ledger Live',       path: (i) => `m/44'/60'/${i}'/0/0` },
+  { id: 'legacy',     label: 'Legacy (MEW)',      path: (i) => `m/44'/60'/0'/${i}` },
+];
+
+const DEFAULT_SCAN_COUNT = 5;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+export interface ChainActivity {
+  balance: string;      // native units; chains whose RPC failed are omitted
+  txCount: number;
+}
+
+export interface DiscoveredAccount {
+  path: string;
+  label: string;        // template label and index, e.g. "Ledger Live #2"
+  address: string;
+  activity: Partial<Record<ChainKey, ChainActivity>>;
+  used: boolean;        // any balance or outgoing transaction on any chain
+}
+
+// ─── Derivation ──────────────────────────────────────────────────────────────
+export function isValidPath(path: string): boolean {
+  return /^m(\/\d+'?)+$/.test(path.trim());
+}
+
+export function deriveAtPath(mnemonic: string, passphrase: string, path: string): string {
+  return ethers.HDNodeWallet.fromPhrase(mnemonic, passphrase, path).address;
+}
+
+// ─── Scan ────────────────────────────────────────────────────────────────────
+// Paths shared by several templates (index 0 of BIP-44 and Ledger Live) are
+// reported once, under the first template.
+export async function discoverAccounts(
+  mnemonic: string,
+  passphrase: string,
+  opts: {
+    start?: number;     // first index per template, to extend an earlier scan
+    count?: number;
+    extraPaths?: string[];
+    onResult?: (account: DiscoveredAccount) => void;  // progress, in scan order
+  } = {},
+): Promise<DiscoveredAccount[]> {
+  const start = opts.start ?? 0;
+  const count = opts.count ?? DEFAULT_SCAN_COUNT;
+  const candidates: { path: string; label: string }[] = [];
+  for (const template of PATH_TEMPLATES) {
+    for (let i = start; i < start + count; i++) {
+      candidates.push({ path: template.path(i), label: `${template.label} #${i + 1}` });
+    }
+  }
+  for (const path of opts.extraPaths ?? []) {
+    candidates.push({ path: path.trim(), label: 'Custom path' });
+  }
+
+  const seen = new Set<string>();
+  const unique = candidates.filter(c => !seen.has(c.path) && seen.add(c.path));
+
+  const results: DiscoveredAccount[] = [];
+  // One candidate at a time keeps the number of parallel RPC calls bounded
+  for (const candidate of unique) {
+    const address = deriveAtPath(mnemonic, passphrase, candidate.path);
+    const account = await scanAddress({ ...candidate, address });
+    results.push(account);
+    opts.onResult?.(account);
+  }
+  return results;
+}
+
+export async function scanAddress(
+  candidate: { path: string; label: string; address: string },
+): Promise<DiscoveredAccount> {
+  const chainKeys = Object.keys(CHAINS) as ChainKey[];
+  const settled = await Promise.allSettled(
+    chainKeys.map(async (k) => {
+      const [balance, txCount] = await Promise.all([
+        getNativeBalance(candidate.address, k),
+        getTransactionCount(candidate.address, k),
+      ]);
+      return { k, balance, txCount };
+    }),
+  );
+
+  const activity: DiscoveredAccount['activity'] = {};
+  settled.forEach((r) => {
+    if (r.status === 'fulfilled') {
+      activity[r.value.k] = { balance: r.value.balance, txCount: r.value.txCount };
+    }
+  });
+  const used = Object.values(activity).some(a => a && (a.txCount > 0 || Number(a.balance) > 0));
+  return { ...candidate, activity, used };
+}
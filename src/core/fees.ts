@@ -0,0 +1,172 @@
+/**
+ * fees.ts — Gas fee oracle
+ * EIP-1559 chains are priced from eth_feeHistory: the next block's base fee
+ * plus the 10th/50th/90th percentile priority fee of recent blocks for
+ * slow/normal/fast. Chains without a base fee fall back to eth_gasPrice.
+ * The chosen FeeParams are spread into the transaction unchanged.
+ */
+
+import { ethers } from 'ethers';
+import { CHAINS, ChainKey } from '../constants/chains';
+import { getProvider } from './wallet';
+
+// ─── Tuning ──────────────────────────────────────────────────────────────────
+const HISTORY_BLOCKS = 20;
+const REWARD_PERCENTILES = [10, 50, 90];
+// maxFee = base fee × 2 + tip keeps a transaction valid through ~6 full blocks
+const BASE_FEE_MULTIPLIER = 2n;
+// Legacy gas price scaling for slow/normal/fast, in percent
+const LEGACY_SCALE = [90n, 100n, 125n];
+// Contract calls get headroom over estimateGas; plain transfers are exact
+const GAS_LIMIT_BUFFER_PERCENT = 20n;
+const TRANSFER_GAS = 21_000n;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+export type FeeSpeed = 'slow' | 'normal' | 'fast';
+export const FEE_SPEEDS: FeeSpeed[] = ['slow', 'normal', 'fast'];
+
+export type FeeParams =
+  | { type: 2; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint; gasLimit: bigint }
+  | { type: 0; gasPrice: bigint; gasLimit: bigint };
+
+export interface FeeQuote {
+  params: FeeParams;
+  expectedCost: bigint;  // wei at the current base fee
+  maxCost: bigint;       // wei the sender must be able to cover
+}
+
+export interface FeeEstimate {
+  chainKey: ChainKey;
+  eip1559: boolean;
+  baseFee: bigint | null;
+  gasLimit: bigint;
+  quotes: Record<FeeSpeed, FeeQuote>;
+}
+
+export interface FeeRequest {
+  from: string;
+  to: string;
+  value?: bigint;
+  data?: string;
+}
+
+// ─── Estimation ──────────────────────────────────────────────────────────────
+export async function estimateFees(chainKey: ChainKey, tx: FeeRequest): Promise<FeeEstimate> {
+  const provider = getProvider(chainKey);
+  const [gasLimit, history] = await Promise.all([
+    estimateGasLimit(provider, tx),
+    readFeeHistory(provider),
+  ]);
+
+  if (history) {
+    const minTip = ethers.parseUnits(String(CHAINS[chainKey].minPriorityFeeGwei ?? 0), 'gwei');
+    const quotes = {} as Record<FeeSpeed, FeeQuote>;
+    FEE_SPEEDS.forEach((speed, i) => {
+      const tip = history.tips[i] > minTip ? history.tips[i] : minTip;
+      quotes[speed] = quoteFor(
+        { type: 2, maxFeePerGas: history.baseFee * BASE_FEE_MULTIPLIER + tip, maxPriorityFeePerGas: tip, gasLimit },
+        history.baseFee,
+      );
+    });
+    return { chainKey, eip1559: true, baseFee: history.baseFee, gasLimit, quotes };
+  }
+
+  const gasPrice = BigInt(await provider.send('eth_gasPrice', []));
+  const quotes = {} as Record<FeeSpeed, FeeQuote>;
+  FEE_SPEEDS.forEach((speed, i) => {
+    quotes[speed] = quoteFor({ type: 0, gasPrice: gasPrice * LEGACY_SCALE[i] / 100n, gasLimit }, null);
+  });
+  return { chainKey, eip1559: false, baseFee: null, gasLimit, quotes };
+}
+
+// Cost bounds for any fee params, including ones edited by hand.
+export function quoteFor(params: FeeParams, baseFee: bigint | null): FeeQuote {
+  if (params.type === 0) {
+    const cost = params.gasPrice * params.gasLimit;
+    return { params, expectedCost: cost, maxCost: cost };
+  }
+  const effective = baseFee === null
+    ? params.maxFeePerGas
+    : min(baseFee + params.maxPriorityFeePerGas, params.maxFeePerGas);
+  return {
+    params,
+    expectedCost: effective * params.gasLimit,
+    maxCost: params.maxFeePerGas * params.gasLimit,
+  };
+}
+
+// Checks hand-edited params; returns a user-facing problem or null.
+export function validateFeeParams(params: FeeParams): string | null {
+  if (params.gasLimit < TRANSFER_GAS) return `Gas limit must be at least ${TRANSFER_GAS}.`;
+  if (params.type === 0) return params.gasPrice > 0n ? null : 'Gas price must be above zero.';
+  if (params.maxFeePerGas <= 0n) return 'Max fee must be above zero.';
+  if (params.maxPriorityFeePerGas > params.maxFeePerGas) return 'Priority fee cannot exceed the max fee.';
+  return null;
+}
+
+// ─── Max sendable ────────────────────────────────────────────────────────────
+// All amounts in base units. A native send keeps the worst-case fee
+// (gasLimit × maxFee) back from the balance; a token send can move the whole
+// token balance but needs that fee in native gas.
+export type SendBalance =
+  | { kind: 'native'; balance: bigint }
+  | { kind: 'token'; balance: bigint; nativeBalance: bigint };
+
+export interface MaxSendable {
+  amount: bigint;
+  gasShortfall: bigint;  // native still needed to pay the fee, 0n when covered
+}
+
+export function maxSendable(source: SendBalance, fee: FeeQuote): MaxSendable {
+  if (source.kind === 'native') {
+    return source.balance > fee.maxCost
+      ? { amount: source.balance - fee.maxCost, gasShortfall: 0n }
+      : { amount: 0n, gasShortfall: fee.maxCost - source.balance };
+  }
+  return {
+    amount: source.balance,
+    gasShortfall: source.nativeBalance >= fee.maxCost ? 0n : fee.maxCost - source.nativeBalance,
+  };
+}
+
+export function formatFee(wei: bigint, symbol: string): string {
+  return `${parseFloat(ethers.formatEther(wei)).toFixed(6)} ${symbol}`;
+}
+
+async function estimateGasLimit(provider: ethers.JsonRpcProvider, tx: FeeRequest): Promise<bigint> {
+  const estimate = await provider.estimateGas({ from: tx.from, to: tx.to, value: tx.value ?? 0n, data: tx.data });
+  return estimate <= TRANSFER_GAS ? estimate : estimate * (100n + GAS_LIMIT_BUFFER_PERCENT) / 100n;
+}
+
+// null when the chain has no EIP-1559 base fee (or does not serve fee history)
+async function readFeeHistory(
+  provider: ethers.JsonRpcProvider,
+): Promise<{ baseFee: bigint; tips: bigint[] } | null> {
+  let history: { baseFeePerGas?: string[]; reward?: string[][] };
+  try {
+    history = await provider.send('eth_feeHistory', [
+      ethers.toQuantity(HISTORY_BLOCKS), 'latest', REWARD_PERCENTILES,
+    ]);
+  } catch {
+    return null;
+  }
+  const baseFees = history.baseFeePerGas ?? [];
+  if (baseFees.length === 0 || !history.reward) return null;
+  // The last entry is the base fee of the block after `latest`
+  const baseFee = BigInt(baseFees[baseFees.length - 1]);
+  if (baseFee === 0n && baseFees.every(b => BigInt(b) === 0n)) return null;
+
+  const tips = REWARD_PERCENTILES.map((_, i) =>
+    median(history.reward!.map(block => BigInt(block[i] ?? 0))));
+  return { baseFee, tips };
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
@@ -0,0 +1,283 @@
+/**
+ * indexer.ts — Find transfers to and from the wallet address
+ * Each chain has a persisted block cursor; every run scans the blocks after it
+ * through an IndexerBackend and hands the results to the caller to merge into
+ * the transaction list. The built-in backend reads the chain directly
+ * (ERC-20 Transfer logs plus block bodies for native value); an explorer-API
+ * backend can implement the same interface and replace it. The provider
+ * factory is injectable, so the log backend also runs against a local node.
+ * A cursor older than the node's recent state catches up on token logs only.
+ * A chain whose RPC fails is skipped for a growing number of runs.
+ */
+
+import { AppState } from 'react-native';
+import { ethers } from 'ethers';
+import { CHAINS, ChainKey } from '../constants/chains';
+import { getProvider } from './wallet';
+import { Transaction, loadIndexerCursors, saveIndexerCursors } from './transactions';
+
+// ─── Tuning ──────────────────────────────────────────────────────────────────
+// A fresh address starts this far back; older history needs an explorer backend
+const INITIAL_LOOKBACK_BLOCKS = 50;
+// Non-archive nodes keep account state for ~128 recent blocks; the native
+// activity check only runs on ranges starting inside this margin of it
+const STATE_WINDOW_BLOCKS = 100;
+// Blocks scanned per chain per run: several polls' worth at 12s, 3s and 2s
+// blocks, so a lagging cursor gains on the chain
+const BLOCKS_PER_RUN: Record<ChainKey, number> = {
+  ethereum: 50,
+  bsc:      100,
+  polygon:  100,
+};
+// Per run for a cursor older than the state window, which reads logs only
+const CATCH_UP_BLOCKS_PER_RUN = 2_000;
+// Block ranges at most this long are fetched rather than split further
+const WALK_BLOCKS = 4;
+const INDEX_POLL_MS = 60_000;
+// A failing chain waits INDEX_POLL_MS × 2^failures, up to this, before retrying
+const MAX_BACKOFF_MS = 30 * 60_000;
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const TOKEN_META_ABI = [
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+];
+
+// ─── Backend ─────────────────────────────────────────────────────────────────
+export interface ScanOptions {
+  // Skip native value, e.g. for blocks whose state the node has pruned
+  tokensOnly?: boolean;
+}
+
+export interface IndexerBackend {
+  latestBlock(chainKey: ChainKey): Promise<number>;
+  // Confirmed transfers touching `address` in blocks fromBlock..toBlock inclusive
+  scan(
+    chainKey: ChainKey, address: string, fromBlock: number, toBlock: number, options?: ScanOptions,
+  ): Promise<Transaction[]>;
+}
+
+export function createLogScanBackend(
+  providerFor: (chainKey: ChainKey) => ethers.Provider = getProvider,
+): IndexerBackend {
+  const tokenMeta = new Map<string, Promise<{ symbol: string; decimals: number } | null>>();
+
+  const readTokenMeta = (chainKey: ChainKey, contract: string) => {
+    const id = `${chainKey}:${contract.toLowerCase()}`;
+    if (!tokenMeta.has(id)) {
+      const token = new ethers.Contract(contract, TOKEN_META_ABI, providerFor(chainKey));
+      tokenMeta.set(id, Promise.all([token.symbol(), token.decimals()])
+        .then(([symbol, decimals]) => ({ symbol: String(symbol), decimals: Number(decimals) }))
+        .catch(() => null));
+    }
+    return tokenMeta.get(id)!;
+  };
+
+  return {
+    latestBlock: (chainKey) => providerFor(chainKey).getBlockNumber(),
+
+    async scan(chainKey, address, fromBlock, toBlock, options = {}) {
+      const provider = providerFor(chainKey);
+      const self     = address.toLowerCase();
+      const padded   = ethers.zeroPadValue(address, 32);
+      const found: Transaction[] = [];
+      const blockTime = new Map<number, number>();
+      // A payment to an address without code cannot revert; a contract or
+      // multisig watched read-only can reject one, so then it needs a receipt
+      let hasCode: Promise<boolean> | undefined;
+      const needsReceipt = (outgoing: boolean) => {
+        if (outgoing) return Promise.resolve(true);
+        hasCode ??= provider.getCode(address).then(code => code !== '0x');
+        return hasCode;
+      };
+
+      // Native value: bodies of the blocks where the account's state moved
+      const active = options.tokensOnly ? [] : await blocksWithActivity(provider, address, fromBlock, toBlock);
+      for (const n of active) {
+        const block = await provider.getBlock(n, true);
+        if (!block) continue;
+        blockTime.set(n, block.timestamp * 1000);
+        for (const tx of block.prefetchedTransactions) {
+          if (tx.value === 0n) continue;
+          const from = tx.from.toLowerCase();
+          const to   = tx.to?.toLowerCase();
+          if (from !== self && to !== self) continue;
+          if (await needsReceipt(from === self)) {
+            const receipt = await provider.getTransactionReceipt(tx.hash);
+            if (receipt?.status !== 1) continue;
+          }
+          found.push({
+            hash: tx.hash,
+            from: tx.from,
+            to: tx.to!,
+            amount: tx.value.toString(),
+            asset: { symbol: CHAINS[chainKey].symbol, decimals: CHAINS[chainKey].decimals },
+            timestamp: block.timestamp * 1000,
+            status: 'confirmed',
+            type: to === self ? 'receive' : 'send',
+            chainKey,
+          });
+        }
+      }
+
+      // ERC-20: Transfer logs with the address as sender or recipient. ERC-721
+      // shares the topic but indexes the token id, giving a fourth topic.
+      // A transfer to self matches both queries and is recorded once.
+      const [sent, received] = await Promise.all([
+        provider.getLogs({ fromBlock, toBlock, topics: [TRANSFER_TOPIC, padded] }),
+        provider.getLogs({ fromBlock, toBlock, topics: [TRANSFER_TOPIC, null, padded] }),
+      ]);
+      const seen = new Set<string>();
+      for (const log of [...sent, ...received]) {
+        if (log.topics.length !== 3) continue;
+        const id = `${log.transactionHash}:${log.index}`;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const meta = await readTokenMeta(chainKey, log.address);
+        if (!meta) continue;
+        const from = ethers.getAddress(ethers.dataSlice(log.topics[1], 12));
+        const to   = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+        if (!blockTime.has(log.blockNumber)) {
+          const block = await provider.getBlock(log.blockNumber);
+          blockTime.set(log.blockNumber, (block?.timestamp ?? 0) * 1000);
+        }
+        found.push({
+          hash: log.transactionHash,
+          from,
+          to,
+          amount: BigInt(log.data).toString(),
+          asset: { symbol: meta.symbol, decimals: meta.decimals, contractAddress: log.address },
+          timestamp: blockTime.get(log.blockNumber)!,
+          status: 'confirmed',
+          type: to.toLowerCase() === self ? 'receive' : 'send',
+          chainKey,
+        });
+      }
+      return found;
+    },
+  };
+}
+
+// The nonce only grows with outgoing transactions and, without one, the
+// balance only grows with incoming value, so a range where both are unchanged
+// holds no native transfer. Ranges that changed are halved until short enough
+// to fetch. Falls back to every block if the node still lacks the state.
+async function blocksWithActivity(
+  provider: ethers.Provider,
+  address: string,
+  fromBlock: number,
+  toBlock: number,
+): Promise<number[]> {
+  const states = new Map<number, Promise<string>>();
+  const stateAt = (n: number) => {
+    if (!states.has(n)) {
+      states.set(n, Promise.all([provider.getTransactionCount(address, n), provider.getBalance(address, n)])
+        .then(([nonce, balance]) => `${nonce}:${balance}`));
+    }
+    return states.get(n)!;
+  };
+  const search = async (lo: number, hi: number): Promise<number[]> => {
+    const [before, after] = await Promise.all([stateAt(lo - 1), stateAt(hi)]);
+    if (before === after) return [];
+    if (hi - lo < WALK_BLOCKS) return blockRange(lo, hi);
+    const mid = Math.floor((lo + hi) / 2);
+    return [...await search(lo, mid), ...await search(mid + 1, hi)];
+  };
+  try {
+    return await search(fromBlock, toBlock);
+  } catch {
+    return blockRange(fromBlock, toBlock);
+  }
+}
+
+function blockRange(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+// ─── Sync ────────────────────────────────────────────────────────────────────
+const backoff = new Map<ChainKey, { failures: number; retryAt: number }>();
+
+// One run over every mainnet chain. A chain that fails keeps its cursor and
+// sits out the next runs (see MAX_BACKOFF_MS); the others still advance.
+// Blocks older than the state window get a token-log pass only: native
+// transfers there (e.g. while the app was in the background) need an
+// explorer backend.
+export async function syncTransfers(
+  address: string,
+  backend: IndexerBackend = defaultBackend(),
+): Promise<Transaction[]> {
+  const cursors   = await loadIndexerCursors(address);
+  const now       = Date.now();
+  const chainKeys = (Object.keys(CHAINS) as ChainKey[])
+    .filter(k => !CHAINS[k].isTestnet && (backoff.get(k)?.retryAt ?? 0) <= now);
+
+  const results = await Promise.allSettled(chainKeys.map(async (chainKey) => {
+    const latest = await backend.latestBlock(chainKey);
+    let from     = Math.max(1, (cursors[chainKey] ?? latest - INITIAL_LOOKBACK_BLOCKS) + 1);
+    if (from > latest) return { chainKey, to: latest, found: [] };
+    const found: Transaction[] = [];
+
+    const stateFloor = latest - STATE_WINDOW_BLOCKS;
+    if (from <= stateFloor) {
+      const caughtUp = Math.min(stateFloor, from + CATCH_UP_BLOCKS_PER_RUN - 1);
+      found.push(...await backend.scan(chainKey, address, from, caughtUp, { tokensOnly: true }));
+      if (caughtUp < stateFloor) return { chainKey, to: caughtUp, found };
+      from = caughtUp + 1;
+    }
+    const to = Math.min(latest, from + BLOCKS_PER_RUN[chainKey] - 1);
+    found.push(...await backend.scan(chainKey, address, from, to));
+    return { chainKey, to, found };
+  }));
+
+  const next = { ...cursors };
+  const found: Transaction[] = [];
+  results.forEach((r, i) => {
+    const chainKey = chainKeys[i];
+    if (r.status !== 'fulfilled') {
+      const failures = (backoff.get(chainKey)?.failures ?? 0) + 1;
+      const delay = Math.min(INDEX_POLL_MS * 2 ** failures, MAX_BACKOFF_MS);
+      backoff.set(chainKey, { failures, retryAt: Date.now() + delay });
+      return;
+    }
+    backoff.delete(chainKey);
+    next[chainKey] = r.value.to;
+    found.push(...r.value.found);
+  });
+  await saveIndexerCursors(address, next);
+  return found;
+}
+
+let sharedBackend: IndexerBackend | null = null;
+
+function defaultBackend(): IndexerBackend {
+  sharedBackend ??= createLogScanBackend();
+  return sharedBackend;
+}
+
+// Polls while the app is in the foreground; getAddress returning null (no
+// wallet, or locked) skips the run. Returns a function that stops it.
+export function startIndexer(
+  getAddress: () => string | null,
+  onFound: (transactions: Transaction[]) => void,
+  backend?: IndexerBackend,
+): () => void {
+  let running = false;
+
+  const run = async () => {
+    const address = getAddress();
+    if (running || !address || AppState.currentState !== 'active') return;
+    running = true;
+    try {
+      const found = await syncTransfers(address, backend);
+      if (found.length > 0) onFound(found);
+    } catch {
+      // Retried on the next tick
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  const id = setInterval(run, INDEX_POLL_MS);
+  return () => clearInterval(id);
+}
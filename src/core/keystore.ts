@@ -0,0 +1,145 @@
+/**
+ * keystore.ts — Ethereum keystore v3 (Web3 Secret Storage) backup files
+ * One file holds one account's private key, encrypted with a backup password
+ * that is separate from the device PIN. Files load in geth, MetaMask, MEW, etc.
+ */
+
+import { ethers } from 'ethers';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+export interface KeystoreAccount {
+  address: string;      // checksummed
+  privateKey: string;
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+export class InvalidKeystorePasswordError extends Error {
+  constructor() {
+    super('Incorrect backup password');
+    this.name = 'InvalidKeystorePasswordError';
+  }
+}
+
+export class UnsupportedKeystoreError extends Error {
+  constructor(reason: string) {
+    super(`Unsupported keystore file: ${reason}`);
+    this.name = 'UnsupportedKeystoreError';
+  }
+}
+
+// ─── Limits ──────────────────────────────────────────────────────────────────
+// scrypt runs in JS, so exports use a lighter N than geth's 2^18; any N is
+// valid for other wallets. Imports are capped by memory (128·N·r bytes).
+export const MIN_BACKUP_PASSWORD = 8;
+const EXPORT_SCRYPT_N  = 1 << 15;
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024;
+const MAX_PBKDF2_ROUNDS = 10_000_000;
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+export async function encryptKeystore(
+  account: KeystoreAccount,
+  password: string,
+  onProgress?: (percent: number) => void,
+): Promise<string> {
+  if (password.length < MIN_BACKUP_PASSWORD) {
+    throw new Error(`Backup password must be at least ${MIN_BACKUP_PASSWORD} characters`);
+  }
+  return ethers.encryptKeystoreJson(account, password, {
+    scrypt: { N: EXPORT_SCRYPT_N },
+    progressCallback: onProgress && ((p) => onProgress(Math.round(p * 100))),
+  });
+}
+
+// geth's naming, e.g. UTC--2024-01-31T12-00-00.000Z--<address> (no extension)
+export function keystoreFilename(address: string): string {
+  const stamp = new Date().toISOString().replace(/:/g, '-');
+  return `UTC--${stamp}--${address.slice(2).toLowerCase()}`;
+}
+
+// ─── Import ──────────────────────────────────────────────────────────────────
+// Throws UnsupportedKeystoreError before any KDF work when the file is not a
+// v3 keystore or its parameters are out of range, and
+// InvalidKeystorePasswordError when the MAC does not verify.
+export async function decryptKeystore(
+  json: string,
+  password: string,
+  onProgress?: (percent: number) => void,
+): Promise<KeystoreAccount> {
+  checkKeystore(json);
+  try {
+    const account = await ethers.decryptKeystoreJson(
+      json, password, onProgress && ((p) => onProgress(Math.round(p * 100))),
+    );
+    return { address: account.address, privateKey: account.privateKey };
+  } catch (e: any) {
+    if (e?.code === 'INVALID_ARGUMENT' && /incorrect password/.test(e.shortMessage ?? e.message)) {
+      throw new InvalidKeystorePasswordError();
+    }
+    throw new UnsupportedKeystoreError(e?.shortMessage ?? e?.message ?? 'could not decrypt');
+  }
+}
+
+function checkKeystore(json: string): void {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new UnsupportedKeystoreError('not valid JSON');
+  }
+  if (!isRecord(data) || data.version !== 3) throw new UnsupportedKeystoreError('only version 3 is supported');
+
+  const crypto = data.crypto ?? data.Crypto;
+  if (!isRecord(crypto)) throw new UnsupportedKeystoreError('missing crypto section');
+  if (typeof crypto.cipher !== 'string' || crypto.cipher.toLowerCase() !== 'aes-128-ctr') {
+    throw new UnsupportedKeystoreError(`cipher ${String(crypto.cipher)}`);
+  }
+  if (!isHex(crypto.ciphertext)) throw new UnsupportedKeystoreError('missing ciphertext');
+  if (!isHex(crypto.mac)) throw new UnsupportedKeystoreError('missing MAC');
+  if (!isRecord(crypto.cipherparams) || !isHex(crypto.cipherparams.iv)) {
+    throw new UnsupportedKeystoreError('missing cipher IV');
+  }
+
+  const params = crypto.kdfparams;
+  if (!isRecord(params)) throw new UnsupportedKeystoreError('missing key derivation parameters');
+  if (!isHex(params.salt)) throw new UnsupportedKeystoreError('missing salt');
+  if (params.dklen !== 32) throw new UnsupportedKeystoreError(`key length ${String(params.dklen)}`);
+
+  const kdf = typeof crypto.kdf === 'string' ? crypto.kdf.toLowerCase() : '';
+  if (kdf === 'scrypt') {
+    const { n, r, p } = params;
+    if (!isInteger(n) || n < 2 || (n & (n - 1)) !== 0) {
+      throw new UnsupportedKeystoreError(`scrypt N ${String(n)}`);
+    }
+    if (!isInteger(r) || !isInteger(p) || r < 1 || p < 1) {
+      throw new UnsupportedKeystoreError(`scrypt r=${String(r)}, p=${String(p)}`);
+    }
+    if (128 * n * r > MAX_SCRYPT_MEMORY) {
+      throw new UnsupportedKeystoreError(`scrypt N=${n}, r=${r} needs too much memory for this device`);
+    }
+    return;
+  }
+  if (kdf === 'pbkdf2') {
+    const { prf, c } = params;
+    if (prf !== 'hmac-sha256' && prf !== 'hmac-sha512') {
+      throw new UnsupportedKeystoreError(`PBKDF2 ${String(prf)}`);
+    }
+    if (!isInteger(c) || c < 1 || c > MAX_PBKDF2_ROUNDS) {
+      throw new UnsupportedKeystoreError(`PBKDF2 iterations ${String(c)}`);
+    }
+    return;
+  }
+  throw new UnsupportedKeystoreError(`key derivation ${String(crypto.kdf)}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInteger(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+// Keystore files write hex without the 0x prefix; some tools add it
+function isHex(value: unknown): value is string {
+  return typeof value === 'string' && /^(0x)?([0-9a-f]{2})+$/i.test(value);
+}
@@ -0,0 +1,128 @@
+/**
+ * lockout.ts — Persistent PIN attempt throttling
+ * Failed-attempt counters and lockout deadlines live in EncryptedStorage so
+ * restarting the app does not reset them. Every PIN prompt goes through
+ * attemptPin() rather than calling verifyPin() directly.
+ */
+
+import EncryptedStorage from 'react-native-encrypted-storage';
+import { verifyPin, deleteAllWallets } from './wallet';
+import { disableBiometrics } from './biometrics';
+
+// ─── Storage Keys ────────────────────────────────────────────────────────────
+const LOCKOUT_KEY     = 'pin_lockout';
+const WIPE_POLICY_KEY = 'pin_wipe_policy';
+
+// ─── Policy ──────────────────────────────────────────────────────────────────
+const FREE_ATTEMPTS = 5;
+// Delay applied after the 5th, 6th and 7th+ consecutive failure
+const LOCKOUT_STEPS_MS = [30 * 1000, 5 * 60 * 1000, 60 * 60 * 1000];
+export const DEFAULT_WIPE_AFTER = 10;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+export interface LockoutState {
+  failures: number;
+  lockedUntil: number;  // epoch ms, 0 when not locked
+}
+
+export type PinAttemptResult =
+  | { status: 'ok' }
+  | { status: 'wrong'; failures: number; remaining: number; lockedUntil: number; wipeIn: number | null }
+  | { status: 'locked'; lockedUntil: number }
+  | { status: 'wiped' };
+
+// ─── State ───────────────────────────────────────────────────────────────────
+export async function getLockoutState(): Promise<LockoutState> {
+  const raw = await EncryptedStorage.getItem(LOCKOUT_KEY);
+  return raw ? JSON.parse(raw) : { failures: 0, lockedUntil: 0 };
+}
+
+async function saveLockoutState(state: LockoutState): Promise<void> {
+  await EncryptedStorage.setItem(LOCKOUT_KEY, JSON.stringify(state));
+}
+
+// ─── Wipe policy (user opt-in) ───────────────────────────────────────────────
+export async function getWipePolicy(): Promise<number | null> {
+  const raw = await EncryptedStorage.getItem(WIPE_POLICY_KEY);
+  return raw ? Number(raw) : null;
+}
+
+export async function setWipePolicy(maxFailures: number | null): Promise<void> {
+  if (maxFailures === null) {
+    await EncryptedStorage.removeItem(WIPE_POLICY_KEY);
+  } else {
+    await EncryptedStorage.setItem(WIPE_POLICY_KEY, String(maxFailures));
+  }
+}
+
+// ─── Attempt a PIN ───────────────────────────────────────────────────────────
+export async function attemptPin(pin: string): Promise<PinAttemptResult> {
+  const state = await getLockoutState();
+  const now   = Date.now();
+  if (state.lockedUntil > now) {
+    return { status: 'locked', lockedUntil: state.lockedUntil };
+  }
+
+  if (await verifyPin(pin)) {
+    if (state.failures > 0) await saveLockoutState({ failures: 0, lockedUntil: 0 });
+    return { status: 'ok' };
+  }
+
+  const failures  = state.failures + 1;
+  const wipeAfter = await getWipePolicy();
+  if (wipeAfter !== null && failures >= wipeAfter) {
+    await deleteAllWallets();
+    await EncryptedStorage.removeItem(LOCKOUT_KEY);
+    await setWipePolicy(null);
+    return { status: 'wiped' };
+  }
+
+  const step = failures - FREE_ATTEMPTS;
+  const lockedUntil = step >= 0
+    ? now + LOCKOUT_STEPS_MS[Math.min(step, LOCKOUT_STEPS_MS.length - 1)]
+    : 0;
+  await saveLockoutState({ failures, lockedUntil });
+  return {
+    status: 'wrong',
+    failures,
+    remaining: Math.max(0, FREE_ATTEMPTS - failures),
+    lockedUntil,
+    wipeIn: wipeAfter !== null ? wipeAfter - failures : null,
+  };
+}
+
+// A PIN read from the biometric credential. One that no longer verifies is
+// stale (the app died between changing the PIN and re-wrapping it): the
+// credential is turned off and, since nobody typed it, no failure is counted.
+export async function attemptBiometricPin(pin: string): Promise<PinAttemptResult | { status: 'stale' }> {
+  const state = await getLockoutState();
+  if (state.lockedUntil > Date.now()) {
+    return { status: 'locked', lockedUntil: state.lockedUntil };
+  }
+  if (!(await verifyPin(pin))) {
+    await disableBiometrics();
+    return { status: 'stale' };
+  }
+  if (state.failures > 0) await saveLockoutState({ failures: 0, lockedUntil: 0 });
+  return { status: 'ok' };
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────────────
+export function formatLockout(lockedUntil: number): string {
+  const secs = Math.max(1, Math.ceil((lockedUntil - Date.now()) / 1000));
+  if (secs < 60)   return `${secs}s`;
+  if (secs < 3600) return `${Math.ceil(secs / 60)} min`;
+  return `${Math.ceil(secs / 3600)} h`;
+}
+
+export function failureMessage(result: Extract<PinAttemptResult, { status: 'wrong' }>): string {
+  const lines = [
+    result.lockedUntil
+      ? `Too many attempts. Try again in ${formatLockout(result.lockedUntil)}.`
+      : `${result.remaining} attempts remaining before a temporary lockout.`,
+  ];
+  if (result.wipeIn !== null && result.wipeIn <= 3) {
+    lines.push(`The wallet will be erased after ${result.wipeIn} more failed attempt${result.wipeIn === 1 ? '' : 's'}.`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,109 @@
+/**
+ * nonces.ts — Local nonce allocation per account per chain
+ * The node's pending count lags behind our own broadcasts (and differs between
+ * load-balanced RPC nodes), so two quick sends can be handed the same nonce.
+ * Nonces are reserved here instead: the next one is the larger of the node's
+ * pending count and what we have already handed out, a failed broadcast gives
+ * its nonce back, and the local count is dropped again once the node has had
+ * time to see our transactions but still reports fewer (they were dropped).
+ * Replacements (replace.ts) reuse the stuck transaction's nonce and skip this.
+ */
+
+import { ethers } from 'ethers';
+import { ChainKey } from '../constants/chains';
+
+// How long the node may lag behind our last broadcast before its count wins
+const RECONCILE_AFTER_MS = 60_000;
+
+interface NonceState {
+  next: number;            // one past the highest nonce handed out
+  released: Set<number>;   // below `next`, given back by failed broadcasts
+  inFlight: number;        // reserved and not yet broadcast or released
+  lastBroadcast: number;   // Date.now() of the last successful broadcast
+}
+
+const states = new Map<string, NonceState>();
+// Reservations for one account run one at a time
+const queues = new Map<string, Promise<unknown>>();
+
+function stateKey(chainKey: ChainKey, address: string): string {
+  return `${chainKey}:${address.toLowerCase()}`;
+}
+
+function serialize<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const run = (queues.get(key) ?? Promise.resolve()).then(task, task);
+  queues.set(key, run.catch(() => {}));
+  return run;
+}
+
+// Hands out the next nonce for the signer's account. Pair every call with
+// confirmNonce() or releaseNonce().
+export function reserveNonce(chainKey: ChainKey, signer: ethers.Wallet): Promise<number> {
+  const key = stateKey(chainKey, signer.address);
+  return serialize(key, async () => {
+    const pending = await signer.getNonce('pending');
+    let state = states.get(key);
+    if (!state) {
+      state = { next: pending, released: new Set(), inFlight: 0, lastBroadcast: 0 };
+      states.set(key, state);
+    }
+
+    // Reconcile: the node is ahead (another wallet sent) or we are ahead for
+    // too long with nothing in flight (our transactions never made it)
+    const stale = state.inFlight === 0 && Date.now() - state.lastBroadcast > RECONCILE_AFTER_MS;
+    if (pending > state.next || stale) {
+      state.next = pending;
+      state.released.clear();
+    }
+    for (const n of state.released) {
+      if (n < pending) state.released.delete(n);
+    }
+
+    state.inFlight++;
+    // Fill gaps left by failed broadcasts first, lowest first
+    if (state.released.size > 0) {
+      const nonce = Math.min(...state.released);
+      state.released.delete(nonce);
+      return nonce;
+    }
+    return state.next++;
+  });
+}
+
+// The transaction with this nonce was accepted by the node.
+export function confirmNonce(chainKey: ChainKey, address: string): void {
+  const state = states.get(stateKey(chainKey, address));
+  if (!state) return;
+  state.inFlight = Math.max(0, state.inFlight - 1);
+  state.lastBroadcast = Date.now();
+}
+
+// The broadcast failed; the nonce is free for the next send.
+export function releaseNonce(chainKey: ChainKey, address: string, nonce: number): void {
+  const state = states.get(stateKey(chainKey, address));
+  if (!state) return;
+  state.inFlight = Math.max(0, state.inFlight - 1);
+  if (nonce >= state.next) return;
+  state.released.add(nonce);
+  // Trailing free nonces shrink the count instead of leaving a gap
+  while (state.released.has(state.next - 1)) {
+    state.released.delete(--state.next);
+  }
+}
+
+// Reserves a nonce, broadcasts with it and confirms or releases it.
+export async function withNonce<T>(
+  chainKey: ChainKey,
+  signer: ethers.Wallet,
+  broadcast: (nonce: number) => Promise<T>,
+): Promise<T> {
+  const nonce = await reserveNonce(chainKey, signer);
+  try {
+    const result = await broadcast(nonce);
+    confirmNonce(chainKey, signer.address);
+    return result;
+  } catch (e) {
+    releaseNonce(chainKey, signer.address, nonce);
+    throw e;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * prices.ts — Native asset and ERC-20 token prices in USD (CoinGecko)
+ * Cached in memory for a minute; callers treat null as "price unknown".
+ */
+
+import axios from 'axios';
+import { CHAINS, ChainKey } from '../constants/chains';
+
+const PRICE_API = 'https://api.coingecko.com/api/v3/simple/price';
+const TOKEN_PRICE_API = 'https://api.coingecko.com/api/v3/simple/token_price';
+const PRICE_TTL_MS = 60_000;
+
+const cache = new Map<string, { usd: number; fetchedAt: number }>();
+
+// A failed or empty lookup falls back to the last price seen, however old
+async function cachedPrice(key: string, fetchUsd: () => Promise<unknown>): Promise<number | null> {
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.fetchedAt < PRICE_TTL_MS) return hit.usd;
+
+  try {
+    const usd = await fetchUsd();
+    if (typeof usd !== 'number') return hit?.usd ?? null;
+    cache.set(key, { usd, fetchedAt: Date.now() });
+    return usd;
+  } catch {
+    return hit?.usd ?? null;
+  }
+}
+
+export async function getNativeUsdPrice(chainKey: ChainKey): Promise<number | null> {
+  const id = CHAINS[chainKey].coingeckoId;
+  return cachedPrice(id, async () => {
+    const { data } = await axios.get(PRICE_API, {
+      params: { ids: id, vs_currencies: 'usd' },
+      timeout: 10_000,
+    });
+    return data?.[id]?.usd;
+  });
+}
+
+// Tokens CoinGecko does not list come back as null, not 0
+export async function getTokenUsdPrice(chainKey: ChainKey, contractAddress: string): Promise<number | null> {
+  const platform = CHAINS[chainKey].coingeckoPlatform;
+  const address = contractAddress.toLowerCase();
+  return cachedPrice(`${platform}:${address}`, async () => {
+    const { data } = await axios.get(`${TOKEN_PRICE_API}/${platform}`, {
+      params: { contract_addresses: address, vs_currencies: 'usd' },
+      timeout: 10_000,
+    });
+    return data?.[address]?.usd;
+  });
+}
+
+export function formatUsd(value: number): string {
+  return value < 0.01 ? '< $0.01' : `$${value.toFixed(2)}`;
+}
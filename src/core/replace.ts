@@ -0,0 +1,109 @@
+/**
+ * replace.ts — Speed up or cancel a pending transaction
+ * Both re-use the stuck transaction's nonce. Nodes only accept a replacement
+ * whose fees beat the original by at least 10% (both the tip and the max fee
+ * under EIP-1559), so fees are the larger of that bump and the current fast
+ * preset. A cancel is a 0-value transfer to ourselves.
+ */
+
+import { ethers } from 'ethers';
+import { CHAINS } from '../constants/chains';
+import { getSigner, encodeTokenTransfer, AccountRef } from './wallet';
+import { estimateFees, FeeParams, quoteFor, FeeQuote } from './fees';
+import { Transaction, feeParamsOf, sentTxFields } from './transactions';
+import type { SigningAction } from './session';
+
+const REPLACEMENT_BUMP_PERCENT = 110n;
+const CANCEL_GAS = 21_000n;
+
+export type ReplacementKind = 'speedUp' | 'cancel';
+
+export function canReplace(tx: Transaction): boolean {
+  return tx.status === 'pending' && tx.nonce !== undefined && !!tx.fees;
+}
+
+// The signing policy sees what the replaced transaction moves. A cancel
+// carries no value itself but decides whether that value leaves the wallet.
+// Token amounts are unpriced here, so their replacements always need the PIN.
+export function replacementAction(tx: Transaction): SigningAction {
+  if (tx.type === 'approve') return { type: 'approve', chainKey: tx.chainKey };
+  return tx.asset.contractAddress
+    ? { type: 'tokenTransfer', chainKey: tx.chainKey, usdValue: null }
+    : { type: 'send', chainKey: tx.chainKey, value: BigInt(tx.amount) };
+}
+
+// Fees for the replacement, with what they may cost.
+export async function replacementFees(tx: Transaction, kind: ReplacementKind): Promise<FeeQuote> {
+  if (!canReplace(tx)) throw new Error('This transaction can no longer be replaced');
+  const original = feeParamsOf(tx.fees!);
+  const gasLimit = kind === 'cancel' ? CANCEL_GAS : original.gasLimit;
+  const estimate = await estimateFees(tx.chainKey, { from: tx.from, to: tx.from });
+  const fast = estimate.quotes.fast.params;
+  // On a legacy quote the gas price is the floor for both 1559 fields
+  const floorMax = fast.type === 2 ? fast.maxFeePerGas : fast.gasPrice;
+  const floorTip = fast.type === 2 ? fast.maxPriorityFeePerGas : fast.gasPrice;
+
+  let params: FeeParams;
+  if (original.type === 2) {
+    const tip = max(bump(original.maxPriorityFeePerGas), floorTip);
+    params = {
+      type: 2,
+      maxPriorityFeePerGas: tip,
+      maxFeePerGas: max(max(bump(original.maxFeePerGas), floorMax), tip),
+      gasLimit,
+    };
+  } else {
+    params = { type: 0, gasPrice: max(bump(original.gasPrice), floorMax), gasLimit };
+  }
+  return quoteFor(params, estimate.baseFee);
+}
+
+// Signs and broadcasts the replacement; returns the journal record for it.
+export async function replaceTransaction(
+  tx: Transaction,
+  kind: ReplacementKind,
+  fees: FeeParams,
+  pin: string | null,
+  account: AccountRef,
+): Promise<Transaction> {
+  if (!canReplace(tx)) throw new Error('This transaction can no longer be replaced');
+  const signer = await getSigner(tx.chainKey, pin, account);
+  if (signer.address.toLowerCase() !== tx.from.toLowerCase()) {
+    throw new Error('This transaction was sent from a different account');
+  }
+
+  const request: ethers.TransactionRequest = kind === 'cancel'
+    ? { to: tx.from, value: 0n }
+    : tx.asset.contractAddress
+      ? { to: tx.asset.contractAddress, data: encodeTokenTransfer(tx.to, BigInt(tx.amount)) }
+      : { to: tx.to, value: BigInt(tx.amount) };
+  const response = await signer.sendTransaction({ ...request, nonce: tx.nonce, ...fees });
+
+  const base = { hash: response.hash, from: tx.from, timestamp: Date.now(), status: 'pending' as const };
+  return kind === 'cancel'
+    ? {
+        ...base,
+        to: tx.from,
+        amount: '0',
+        asset: { symbol: CHAINS[tx.chainKey].symbol, decimals: CHAINS[tx.chainKey].decimals },
+        type: 'cancel',
+        chainKey: tx.chainKey,
+        replaces: tx.hash,
+        ...sentTxFields(response),
+      }
+    : {
+        ...tx,
+        ...base,
+        receipt: undefined,
+        replaces: tx.hash,
+        ...sentTxFields(response),
+      };
+}
+
+function bump(value: bigint): bigint {
+  return (value * REPLACEMENT_BUMP_PERCENT + 99n) / 100n;
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
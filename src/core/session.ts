@@ -0,0 +1,140 @@
+/**
+ * session.ts — In-memory signing keys for the unlocked session
+ * A key derived with the PIN is kept for a configurable TTL so routine sends
+ * skip the PIN pad and the mnemonic is not decrypted and re-derived for every
+ * signature. Keys are held as bytes and zeroed on expiry, lock and wipe.
+ * signingPolicy() decides which actions still need a fresh PIN.
+ */
+
+import { ethers } from 'ethers';
+import EncryptedStorage from 'react-native-encrypted-storage';
+import { ChainKey } from '../constants/chains';
+import type { AccountRef } from './wallet';
+
+// ─── Storage Keys ────────────────────────────────────────────────────────────
+const SESSION_TTL_KEY = 'signing_session_ttl';
+
+// ─── Setting ─────────────────────────────────────────────────────────────────
+// 0 disables the cache: every signature asks for the PIN
+export type SessionTtl = 0 | 60_000 | 300_000 | 900_000;
+
+export const SESSION_TTL_OPTIONS: { value: SessionTtl; label: string }[] = [
+  { value: 0,       label: 'Never' },
+  { value: 60_000,  label: '1 min' },
+  { value: 300_000, label: '5 min' },
+  { value: 900_000, label: '15 min' },
+];
+
+export const DEFAULT_SESSION_TTL: SessionTtl = 300_000;
+
+// ─── Policy ──────────────────────────────────────────────────────────────────
+// Native sends at or above these amounts always ask for the PIN
+const LARGE_SEND: Record<ChainKey, bigint> = {
+  ethereum: ethers.parseEther('0.1'),
+  bsc:      ethers.parseEther('0.5'),
+  polygon:  ethers.parseEther('500'),
+};
+// Token transfers are compared by fiat value; unpriced tokens need the PIN
+const LARGE_TOKEN_SEND_USD = 250;
+
+export type SigningAction =
+  | { type: 'send'; chainKey: ChainKey; value: bigint }
+  | { type: 'tokenTransfer'; chainKey: ChainKey; usdValue: number | null }
+  | { type: 'approve'; chainKey: ChainKey };
+
+export type SigningPolicy = 'session' | 'pin';
+
+export class SessionExpiredError extends Error {
+  constructor() {
+    super('Your signing session has expired. Enter your PIN to continue.');
+    this.name = 'SessionExpiredError';
+  }
+}
+
+interface SessionKey {
+  bytes: Uint8Array;
+  expiresAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let ttl: SessionTtl = DEFAULT_SESSION_TTL;
+let epoch = 0;
+const keys = new Map<string, SessionKey>();
+
+export async function getSessionTtl(): Promise<SessionTtl> {
+  const raw = await EncryptedStorage.getItem(SESSION_TTL_KEY);
+  const value = raw === null ? DEFAULT_SESSION_TTL : Number(raw);
+  return SESSION_TTL_OPTIONS.some(o => o.value === value) ? value as SessionTtl : DEFAULT_SESSION_TTL;
+}
+
+// A new TTL applies to keys cached from now on; existing ones are dropped.
+export async function setSessionTtl(value: SessionTtl): Promise<void> {
+  await EncryptedStorage.setItem(SESSION_TTL_KEY, String(value));
+  ttl = value;
+  clearSession();
+}
+
+export async function loadSessionTtl(): Promise<void> {
+  ttl = await getSessionTtl();
+}
+
+export function signingPolicy(action: SigningAction): SigningPolicy {
+  switch (action.type) {
+    case 'send':
+      return action.value < LARGE_SEND[action.chainKey] ? 'session' : 'pin';
+    case 'tokenTransfer':
+      return action.usdValue !== null && action.usdValue < LARGE_TOKEN_SEND_USD ? 'session' : 'pin';
+    case 'approve':
+      return 'pin';
+  }
+}
+
+// ─── Cache ───────────────────────────────────────────────────────────────────
+function keyId(account: AccountRef): string {
+  return `${account.walletId}:${account.index}`;
+}
+
+// Bumped by clearSession(); a derivation started before a lock passes its
+// epoch to rememberKey() so the key is not cached after the lock.
+export function sessionEpoch(): number {
+  return epoch;
+}
+
+export function rememberKey(account: AccountRef, privateKey: string, since = epoch): void {
+  if (ttl === 0 || since !== epoch) return;
+  const id = keyId(account);
+  forget(id);
+  keys.set(id, {
+    bytes: ethers.getBytesCopy(privateKey),
+    expiresAt: Date.now() + ttl,
+    timer: setTimeout(() => forget(id), ttl),
+  });
+}
+
+export function hasSessionKey(account: AccountRef): boolean {
+  const entry = keys.get(keyId(account));
+  return !!entry && entry.expiresAt > Date.now();
+}
+
+// The returned hex string cannot be zeroed; callers hand it straight to a signer.
+export function sessionPrivateKey(account: AccountRef): string {
+  if (!hasSessionKey(account)) throw new SessionExpiredError();
+  return ethers.hexlify(keys.get(keyId(account))!.bytes);
+}
+
+export function canSignWithSession(account: AccountRef, action: SigningAction): boolean {
+  return signingPolicy(action) === 'session' && hasSessionKey(account);
+}
+
+export function clearSession(): void {
+  epoch++;
+  for (const id of [...keys.keys()]) forget(id);
+}
+
+function forget(id: string): void {
+  const entry = keys.get(id);
+  if (!entry) return;
+  clearTimeout(entry.timer);
+  entry.bytes.fill(0);
+  keys.delete(id);
+}
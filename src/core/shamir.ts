@@ -0,0 +1,77 @@
+/**
+ * shamir.ts — SLIP-39 Shamir backup of a recovery phrase
+ * The BIP-39 entropy of the phrase is the SLIP-39 master secret, so combining
+ * the shares gives back the original 12/24 words and the same accounts.
+ * (A wallet created natively as SLIP-39 elsewhere, e.g. on a Trezor, derives
+ * its keys from the master secret directly and will not match.)
+ */
+
+import * as bip39 from 'bip39';
+import Slip39 from 'slip39';
+import { WORD_LIST } from 'slip39/src/slip39_helper';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+export interface ShareGroupSpec {
+  threshold: number;    // members needed to rebuild this group
+  count: number;        // members created
+}
+
+export interface ShareInfo {
+  identifier: number;   // same for every share of one backup
+  groupIndex: number;
+  groupThreshold: number;
+  groupCount: number;
+  memberIndex: number;
+  memberThreshold: number;
+}
+
+// ─── Split ───────────────────────────────────────────────────────────────────
+// Returns one list of share mnemonics per group, in group order.
+export function splitMnemonic(
+  mnemonic: string,
+  groupThreshold: number,
+  groups: ShareGroupSpec[],
+): string[][] {
+  if (!bip39.validateMnemonic(mnemonic)) throw new Error('Invalid mnemonic phrase');
+  const entropy = Array.from(Buffer.from(bip39.mnemonicToEntropy(mnemonic), 'hex'));
+  const slip = Slip39.fromArray(entropy, {
+    threshold: groupThreshold,
+    groups: groups.map(g => [g.threshold, g.count]),
+  });
+  return groups.map((g, gi) =>
+    Array.from({ length: g.count }, (_, mi) => slip.fromPath(`r/${gi}/${mi}`).mnemonics[0]),
+  );
+}
+
+// ─── Inspect ─────────────────────────────────────────────────────────────────
+export function normalizeShare(share: string): string {
+  return share.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+// Checks word list membership and the share's RS1024 checksum.
+export function isValidShare(share: string): boolean {
+  return Slip39.validateMnemonic(normalizeShare(share));
+}
+
+// Decodes the 40-bit share header (first four words) of a valid share.
+export function describeShare(share: string): ShareInfo {
+  const idx = normalizeShare(share).split(' ').slice(0, 4).map(w => WORD_LIST.indexOf(w));
+  const high = idx[0] * 1024 + idx[1];    // id(15) ext(1) exp(4)
+  const low  = idx[2] * 1024 + idx[3];    // GI(4) Gt(4) g(4) I(4) t(4)
+  return {
+    identifier:      high >> 5,
+    groupIndex:      (low >> 16) & 0xf,
+    groupThreshold:  ((low >> 12) & 0xf) + 1,
+    groupCount:      ((low >> 8) & 0xf) + 1,
+    memberIndex:     (low >> 4) & 0xf,
+    memberThreshold: (low & 0xf) + 1,
+  };
+}
+
+// ─── Combine ─────────────────────────────────────────────────────────────────
+// Throws with the library's message when thresholds are not met or the
+// shares belong to different backups.
+export function combineShares(shares: string[]): string {
+  const secret = Slip39.recoverSecret(shares.map(normalizeShare), '');
+  return bip39.entropyToMnemonic(Buffer.from(secret).toString('hex'));
+}
@@ -0,0 +1,142 @@
+/**
+ * transactions.ts — Persisted transaction journal
+ * Sent and received transactions are kept in EncryptedStorage so history
+ * survives restarts and pending hashes can be tracked again after a cold start
+ * (see txTracker.ts), together with the indexer's per-chain block cursors.
+ * Amounts and fees are base-unit decimal strings.
+ */
+
+import { ethers } from 'ethers';
+import EncryptedStorage from 'react-native-encrypted-storage';
+import { ChainKey } from '../constants/chains';
+import type { FeeParams } from './fees';
+
+// ─── Storage Keys ────────────────────────────────────────────────────────────
+const TX_JOURNAL_KEY = 'tx_journal';
+// { [lowercased address]: { [chainKey]: last block scanned by the indexer } }
+const INDEXER_CURSOR_KEY = 'indexer_cursors';
+
+// Oldest settled entries are dropped past this; pending ones are always kept
+const MAX_JOURNAL_ENTRIES = 200;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+// What a transaction moved; no contract means the chain's native coin
+export interface TxAsset {
+  symbol: string;
+  decimals: number;
+  contractAddress?: string;
+}
+
+export interface TxReceiptInfo {
+  blockNumber: number;
+  gasUsed: string;
+  effectiveFee: string;  // wei actually paid (gasUsed × effective gas price)
+}
+
+// FeeParams with bigints as decimal strings, so the journal stays JSON
+export type TxFees =
+  | { type: 2; maxFeePerGas: string; maxPriorityFeePerGas: string; gasLimit: string }
+  | { type: 0; gasPrice: string; gasLimit: string };
+
+export interface Transaction {
+  hash: string;
+  from: string;
+  to: string;           // recipient, not the token contract
+  amount: string;       // base units as a decimal string
+  asset: TxAsset;
+  timestamp: number;
+  // replaced: another transaction with the same nonce was mined instead
+  status: 'pending' | 'confirmed' | 'failed' | 'replaced';
+  type: 'send' | 'receive' | 'swap' | 'approve' | 'cancel';
+  chainKey: ChainKey;
+  nonce?: number;       // known for transactions signed on this device
+  fees?: TxFees;
+  receipt?: TxReceiptInfo;  // set once mined
+  replaces?: string;    // hash of the transaction this speeds up or cancels
+  replacedBy?: string;  // hash that took this nonce
+}
+
+export function formatTxAmount(tx: Transaction): string {
+  return `${ethers.formatUnits(BigInt(tx.amount), tx.asset.decimals)} ${tx.asset.symbol}`;
+}
+
+// ERC-20 contracts this address has sent or received, once per chain and contract.
+export function tokensInHistory(
+  transactions: Transaction[],
+  address: string,
+): { chainKey: ChainKey; asset: TxAsset }[] {
+  const own = address.toLowerCase();
+  const seen = new Map<string, { chainKey: ChainKey; asset: TxAsset }>();
+  for (const tx of transactions) {
+    const contract = tx.asset.contractAddress;
+    if (!contract) continue;
+    if (tx.from.toLowerCase() !== own && tx.to.toLowerCase() !== own) continue;
+    const key = `${tx.chainKey}:${contract.toLowerCase()}`;
+    if (!seen.has(key)) seen.set(key, { chainKey: tx.chainKey, asset: tx.asset });
+  }
+  return [...seen.values()];
+}
+
+// Nonce and fee fields of a transaction as broadcast.
+export function sentTxFields(tx: ethers.TransactionResponse): Pick<Transaction, 'nonce' | 'fees'> {
+  const fees: TxFees = tx.type === 2
+    ? {
+        type: 2,
+        maxFeePerGas: String(tx.maxFeePerGas ?? 0n),
+        maxPriorityFeePerGas: String(tx.maxPriorityFeePerGas ?? 0n),
+        gasLimit: String(tx.gasLimit),
+      }
+    : { type: 0, gasPrice: String(tx.gasPrice ?? 0n), gasLimit: String(tx.gasLimit) };
+  return { nonce: tx.nonce, fees };
+}
+
+export function feeParamsOf(fees: TxFees): FeeParams {
+  return fees.type === 2
+    ? {
+        type: 2,
+        maxFeePerGas: BigInt(fees.maxFeePerGas),
+        maxPriorityFeePerGas: BigInt(fees.maxPriorityFeePerGas),
+        gasLimit: BigInt(fees.gasLimit),
+      }
+    : { type: 0, gasPrice: BigInt(fees.gasPrice), gasLimit: BigInt(fees.gasLimit) };
+}
+
+// ─── Journal ─────────────────────────────────────────────────────────────────
+export async function loadTransactions(): Promise<Transaction[]> {
+  const raw = await EncryptedStorage.getItem(TX_JOURNAL_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Newest first, as the store keeps them.
+export async function saveTransactions(transactions: Transaction[]): Promise<void> {
+  let kept = 0;
+  const trimmed = transactions.filter(tx => tx.status === 'pending' || ++kept <= MAX_JOURNAL_ENTRIES);
+  await EncryptedStorage.setItem(TX_JOURNAL_KEY, JSON.stringify(trimmed));
+}
+
+// ─── Indexer cursors ─────────────────────────────────────────────────────────
+export type ChainCursors = Partial<Record<ChainKey, number>>;
+
+export async function loadIndexerCursors(address: string): Promise<ChainCursors> {
+  const raw = await EncryptedStorage.getItem(INDEXER_CURSOR_KEY);
+  return raw ? JSON.parse(raw)[address.toLowerCase()] ?? {} : {};
+}
+
+export async function saveIndexerCursors(address: string, cursors: ChainCursors): Promise<void> {
+  const raw = await EncryptedStorage.getItem(INDEXER_CURSOR_KEY);
+  const all = raw ? JSON.parse(raw) : {};
+  all[address.toLowerCase()] = cursors;
+  await EncryptedStorage.setItem(INDEXER_CURSOR_KEY, JSON.stringify(all));
+}
+
+// Wipes history and indexer progress for every address.
+export async function clearTransactions(): Promise<void> {
+  await EncryptedStorage.removeItem(TX_JOURNAL_KEY);
+  await EncryptedStorage.removeItem(INDEXER_CURSOR_KEY);
+}
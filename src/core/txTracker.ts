@@ -0,0 +1,138 @@
+/**
+ * txTracker.ts — Poll receipts for pending transactions
+ * startTxTracker() asks for the pending list on every tick, so hashes loaded
+ * from the journal after a cold start are picked up without extra wiring.
+ * A pending transaction whose nonce was mined by a different hash (a speed-up,
+ * a cancel, or a send from another wallet) is reported as replaced.
+ * readTxDetails() fetches what the journal does not keep, for the detail view.
+ */
+
+import { AppState } from 'react-native';
+import { ethers } from 'ethers';
+import { ChainKey } from '../constants/chains';
+import { getProvider } from './wallet';
+import { Transaction, TxReceiptInfo } from './transactions';
+
+// Roughly one Ethereum block; faster chains just settle on the next tick
+const POLL_MS = 12_000;
+
+export type SettledTx =
+  | { status: 'confirmed' | 'failed'; receipt: TxReceiptInfo }
+  | { status: 'replaced'; replacedBy?: string };  // no hash when it was not ours
+
+function settledBy(receipt: ethers.TransactionReceipt): SettledTx {
+  return {
+    status: receipt.status === 1 ? 'confirmed' : 'failed',
+    receipt: {
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveFee: receipt.fee.toString(),
+    },
+  };
+}
+
+function nonceKey(from: string, nonce: number): string {
+  return `${from.toLowerCase()}:${nonce}`;
+}
+
+// Returns a function that stops the tracker.
+export function startTxTracker(
+  getPending: () => Transaction[],
+  onSettled: (hash: string, result: SettledTx) => void,
+): () => void {
+  let polling = false;
+
+  const poll = async () => {
+    if (polling || AppState.currentState !== 'active') return;
+    const pending = getPending();
+    if (pending.length === 0) return;
+    polling = true;
+    try {
+      const byChain = new Map<ChainKey, Transaction[]>();
+      for (const tx of pending) byChain.set(tx.chainKey, [...(byChain.get(tx.chainKey) ?? []), tx]);
+
+      await Promise.allSettled([...byChain].map(async ([chainKey, txs]) => {
+        const provider = getProvider(chainKey);
+        // `${from}:${nonce}` → hash mined with it this tick
+        const minedNonces = new Map<string, string>();
+        const unmined: Transaction[] = [];
+        for (const tx of txs) {
+          const receipt = await provider.getTransactionReceipt(tx.hash);
+          if (!receipt) {
+            unmined.push(tx);
+            continue;
+          }
+          if (tx.nonce !== undefined) minedNonces.set(nonceKey(tx.from, tx.nonce), tx.hash);
+          onSettled(tx.hash, settledBy(receipt));
+        }
+
+        const accountNonces = new Map<string, number>();
+        for (const tx of unmined) {
+          if (tx.nonce === undefined) continue;
+          const replacedBy = minedNonces.get(nonceKey(tx.from, tx.nonce));
+          if (replacedBy) {
+            onSettled(tx.hash, { status: 'replaced', replacedBy });
+            continue;
+          }
+          const from = tx.from.toLowerCase();
+          if (!accountNonces.has(from)) accountNonces.set(from, await provider.getTransactionCount(from, 'latest'));
+          if (accountNonces.get(from)! <= tx.nonce) continue;
+          // It may have been mined between the two reads
+          const receipt = await provider.getTransactionReceipt(tx.hash);
+          onSettled(tx.hash, receipt ? settledBy(receipt) : { status: 'replaced' });
+        }
+      }));
+    } finally {
+      polling = false;
+    }
+  };
+
+  poll();
+  const id  = setInterval(poll, POLL_MS);
+  const sub = AppState.addEventListener('change', state => { if (state === 'active') poll(); });
+
+  return () => {
+    clearInterval(id);
+    sub.remove();
+  };
+}
+
+// ─── Details ─────────────────────────────────────────────────────────────────
+// Chain view of one transaction; fields are null until it is mined or when
+// the node no longer serves it.
+export interface TxChainDetails {
+  data: string | null;
+  nonce: number | null;
+  gasLimit: bigint | null;
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  gasPrice: bigint | null;           // legacy transactions
+  gasUsed: bigint | null;
+  effectiveGasPrice: bigint | null;
+  baseFee: bigint | null;            // of the block it was mined in
+  confirmations: number;
+}
+
+export async function readTxDetails(chainKey: ChainKey, hash: string): Promise<TxChainDetails> {
+  const provider = getProvider(chainKey);
+  const [tx, receipt] = await Promise.all([
+    provider.getTransaction(hash),
+    provider.getTransactionReceipt(hash),
+  ]);
+  const [block, confirmations] = receipt
+    ? await Promise.all([provider.getBlock(receipt.blockNumber), receipt.confirmations()])
+    : [null, 0];
+  const eip1559 = tx?.type === 2;
+  return {
+    data: tx?.data ?? null,
+    nonce: tx?.nonce ?? null,
+    gasLimit: tx?.gasLimit ?? null,
+    maxFeePerGas: eip1559 ? tx!.maxFeePerGas : null,
+    maxPriorityFeePerGas: eip1559 ? tx!.maxPriorityFeePerGas : null,
+    gasPrice: tx && !eip1559 ? tx.gasPrice : null,
+    gasUsed: receipt?.gasUsed ?? null,
+    effectiveGasPrice: receipt?.gasPrice ?? null,
+    baseFee: block?.baseFeePerGas ?? null,
+    confirmations,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * vault.ts — PIN-encrypted secret envelopes
+ * A vault is a versioned JSON envelope: a KDF (scrypt or PBKDF2) stretches the
+ * PIN into an AES-256-GCM key, and the GCM tag authenticates the ciphertext,
+ * so a wrong PIN fails loudly instead of producing garbage.
+ */
+
+import { ethers } from 'ethers';
+import QuickCrypto from 'react-native-quick-crypto';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+export interface ScryptParams {
+  n: number;
+  r: number;
+  p: number;
+  dkLen: number;
+  salt: string;         // hex
+}
+
+export interface Pbkdf2Params {
+  iterations: number;
+  digest: 'sha256' | 'sha512';
+  dkLen: number;
+  salt: string;         // hex
+}
+
+export type VaultEnvelope = {
+  version: 1;
+  cipher: 'aes-256-gcm';
+  iv: string;           // hex, 12 bytes
+  tag: string;          // hex, 16 bytes
+  ciphertext: string;   // hex
+} & (
+  | { kdf: 'scrypt'; kdfParams: ScryptParams }
+  | { kdf: 'pbkdf2'; kdfParams: Pbkdf2Params }
+);
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+export class InvalidPinError extends Error {
+  constructor() {
+    super('Incorrect PIN');
+    this.name = 'InvalidPinError';
+  }
+}
+
+// ─── KDF defaults ────────────────────────────────────────────────────────────
+// scrypt runs in JS on the device, so N is tuned to ~1s on a mid-range phone.
+// Parameters are stored per envelope and can be raised without a migration.
+const VAULT_VERSION = 1;
+const DEFAULT_SCRYPT = { n: 1 << 14, r: 8, p: 1, dkLen: 32 };
+
+// ─── Encrypt ─────────────────────────────────────────────────────────────────
+export async function encryptVault(plaintext: string, pin: string): Promise<string> {
+  const salt = ethers.hexlify(ethers.randomBytes(32)).slice(2);
+  const kdfParams: ScryptParams = { ...DEFAULT_SCRYPT, salt };
+  const key = await deriveKey(pin, { kdf: 'scrypt', kdfParams });
+  const iv  = Buffer.from(ethers.randomBytes(12));
+
+  const cipher = QuickCrypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = cipher.update(plaintext, 'utf8', 'hex') + cipher.final('hex');
+  const envelope: VaultEnvelope = {
+    version: VAULT_VERSION,
+    kdf: 'scrypt',
+    kdfParams,
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('hex'),
+    tag: Buffer.from(cipher.getAuthTag()).toString('hex'),
+    ciphertext,
+  };
+  return JSON.stringify(envelope);
+}
+
+// ─── Decrypt ─────────────────────────────────────────────────────────────────
+// Throws InvalidPinError when the GCM tag does not verify.
+export async function decryptVault(blob: string, pin: string): Promise<string> {
+  const envelope = parseVault(blob);
+  if (!envelope) throw new Error('Unrecognised vault format');
+
+  const key = await deriveKey(pin, envelope);
+  try {
+    const decipher = QuickCrypto.createDecipheriv(
+      'aes-256-gcm', key, Buffer.from(envelope.iv, 'hex'),
+    );
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'hex'));
+    return decipher.update(envelope.ciphertext, 'hex', 'utf8') + decipher.final('utf8');
+  } catch {
+    throw new InvalidPinError();
+  }
+}
+
+// ─── Format detection ────────────────────────────────────────────────────────
+export function parseVault(blob: string): VaultEnvelope | null {
+  if (!blob.startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(blob);
+    return parsed?.version === VAULT_VERSION ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// v0 blobs are base64 of the XOR cipher used before the vault format existed.
+export function isLegacyVault(blob: string): boolean {
+  return !blob.startsWith('{');
+}
+
+// Unauthenticated: any PIN "decrypts". Callers must validate the output
+// (e.g. bip39.validateMnemonic) before trusting it and re-encrypting.
+export function decryptLegacyVault(encoded: string, pin: string): string {
+  const text = Buffer.from(encoded, 'base64').toString('binary');
+  const key  = pin.repeat(Math.ceil(text.length / pin.length)).slice(0, text.length);
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    result += String.fromCharCode(text.charCodeAt(i) ^ key.charCodeAt(i));
+  }
+  return result;
+}
+
+// ─── Key derivation ──────────────────────────────────────────────────────────
+async function deriveKey(
+  pin: string,
+  { kdf, kdfParams }: Pick<VaultEnvelope, 'kdf' | 'kdfParams'>,
+): Promise<Buffer> {
+  const password = ethers.toUtf8Bytes(pin);
+  const salt     = Buffer.from(kdfParams.salt, 'hex');
+  if (kdf === 'scrypt') {
+    const { n, r, p, dkLen } = kdfParams as ScryptParams;
+    const hex = await ethers.scrypt(password, salt, n, r, p, dkLen);
+    return Buffer.from(ethers.getBytes(hex));
+  }
+  if (kdf === 'pbkdf2') {
+    const { iterations, dkLen, digest } = kdfParams as Pbkdf2Params;
+    return Buffer.from(QuickCrypto.pbkdf2Sync(password, salt, iterations, dkLen, digest));
+  }
+  throw new Error(`Unsupported vault KDF: ${kdf}`);
+}
@@ -11,21 +11,92 @@ import { ethers } from 'ethers';
 import * as Keychain from 'react-native-keychain';
 import EncryptedStorage from 'react-native-encrypted-storage';
 import { CHAINS, ChainKey } from '../constants/chains';
+import {
+  encryptVault, decryptVault, isLegacyVault, decryptLegacyVault, InvalidPinError,
+} from './vault';
+import { disableBiometrics } from './biometrics';
+import {
+  rememberKey, sessionPrivateKey, sessionEpoch, clearSession, loadSessionTtl,
+} from './session';
+import type { FeeParams } from './fees';
+import { clearTransactions } from './transactions';
+import { withNonce } from './nonces';
 
 // ─── Storage Keys ────────────────────────────────────────────────────────────
-const MNEMONIC_SERVICE = 'com.trustclone.mnemonic';
-const WALLET_META_KEY  = 'wallet_meta';
+// Each wallet's secret lives under `${MNEMONIC_SERVICE}.<walletId>` or
+// `${PRIVATE_KEY_SERVICE}.<walletId>`; the wallet created before keyrings
+// existed keeps the bare mnemonic service name. An optional BIP-39 passphrase
+// sits next to the mnemonic under `${PASSPHRASE_SERVICE}.<walletId>`.
+const MNEMONIC_SERVICE     = 'com.trustclone.mnemonic';
+const PRIVATE_KEY_SERVICE  = 'com.trustclone.privatekey';
+const PASSPHRASE_SERVICE   = 'com.trustclone.passphrase';
+const PIN_VERIFIER_SERVICE = 'com.trustclone.pin';
+const LEGACY_META_KEY      = 'wallet_meta';
+const WALLET_INDEX_KEY     = 'wallet_index';
+const WALLET_META_PREFIX   = 'wallet_meta:';
+const LEGACY_WALLET_ID     = 'default';
+const PIN_CHANGE_JOURNAL_KEY = 'pin_change_journal';
+
+// Known plaintext sealed under the PIN; decrypting it proves the PIN.
+const PIN_CHECK = 'cryptovault:pin-check:v1';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
+// hd: BIP-39 mnemonic, many accounts · privateKey: one raw key, one account
+// watchOnly: address only, nothing to sign with
+export type WalletType = 'hd' | 'privateKey' | 'watchOnly';
+
+export interface WalletAccount {
+  index: number;        // BIP-44 address index (unique id when `path` is set)
+  name: string;
+  address: string;
+  hidden: boolean;
+  path?: string;        // non-standard derivation path found by account discovery
+}
+
 export interface WalletMeta {
-  address: string;      // checksummed ETH/EVM address (same for all EVM chains)
+  id: string;           // keyring id; selects the keychain service and metadata record
+  type: WalletType;
+  name: string;
+  address: string;      // checksummed address of the selected account (same for all EVM chains)
+  accounts: WalletAccount[];
+  selectedAccount: number;  // WalletAccount.index currently in use
+  xpub?: string;        // neutered node at DERIVATION_BASE; derives accounts without the PIN
+  hasPassphrase: boolean;   // BIP-39 passphrase in use (hd only)
   createdAt: number;
   backupVerified: boolean;
 }
 
+export type WalletSecret =
+  | { type: 'mnemonic'; value: string; passphrase: string }
+  | { type: 'privateKey'; value: string };
+
+export interface AccountRef {
+  walletId: string;
+  index: number;
+}
+
+interface WalletIndex {
+  ids: string[];
+  activeId: string | null;
+}
+
 // ─── HD derivation paths ──────────────────────────────────────────────────────
 // BIP-44: m/44'/coin_type'/0'/0/index
-const DERIVATION_PATH = "m/44'/60'/0'/0/0"; // Ethereum / all EVM
+const DERIVATION_BASE = "m/44'/60'/0'/0"; // Ethereum / all EVM
+
+export function derivationPath(index: number): string {
+  return `${DERIVATION_BASE}/${index}`;
+}
+
+export function accountPath(account: WalletAccount): string {
+  return account.path ?? derivationPath(account.index);
+}
+
+// Address index of a path on the standard template, or null for any other path.
+export function standardPathIndex(path: string): number | null {
+  const match = path.match(/^m\/44'\/60'\/0'\/0\/(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
 
 // ─── Generate new wallet ─────────────────────────────────────────────────────
 export async function generateWallet(): Promise<{ mnemonic: string; address: string }> {
@@ -35,67 +106,619 @@ export async function generateWallet(): Promise<{ mnemonic: string; address: str
 }
 
 // ─── Import wallet from mnemonic ─────────────────────────────────────────────
-export async function importFromMnemonic(mnemonic: string): Promise<string> {
-  if (!bip39.validateMnemonic(mnemonic.trim())) {
+// The optional passphrase ("25th word") selects a different wallet from the
+// same phrase; an empty passphrase is the standard wallet.
+export async function importFromMnemonic(mnemonic: string, passphrase = ''): Promise<string> {
+  const phrase = normalizeMnemonic(mnemonic);
+  if (!bip39.validateMnemonic(phrase)) {
     throw new Error('Invalid mnemonic phrase');
   }
-  return deriveAddress(mnemonic.trim());
+  return deriveAddress(phrase, 0, passphrase);
+}
+
+// The canonical form of a typed or pasted phrase: lowercase words, single spaces.
+// Store and derive from this so checks and exports see the same phrase.
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
 }
 
 // ─── Import wallet from private key ──────────────────────────────────────────
 export async function importFromPrivateKey(privateKey: string): Promise<string> {
-  const wallet = new ethers.Wallet(privateKey.trim());
+  const wallet = new ethers.Wallet(normalizePrivateKey(privateKey));
   return wallet.address;
 }
 
+// ─── Import watch-only address ───────────────────────────────────────────────
+// Returns the checksummed address; there is no secret to store.
+export function importWatchAddress(address: string): string {
+  const trimmed = address.trim();
+  if (!ethers.isAddress(trimmed)) throw new Error('Invalid address');
+  return ethers.getAddress(trimmed);
+}
+
+export function isReadOnly(meta: WalletMeta | null): boolean {
+  return meta?.type === 'watchOnly';
+}
+
+function normalizePrivateKey(privateKey: string): string {
+  const key = privateKey.trim();
+  return key.startsWith('0x') ? key : `0x${key}`;
+}
+
 // ─── Derive address from mnemonic ────────────────────────────────────────────
-async function deriveAddress(mnemonic: string): Promise<string> {
-  const hdNode  = ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, DERIVATION_PATH);
+async function deriveAddress(mnemonic: string, index = 0, passphrase = ''): Promise<string> {
+  const hdNode  = ethers.HDNodeWallet.fromPhrase(mnemonic, passphrase, derivationPath(index));
   return hdNode.address;
 }
 
+// ─── Accounts ────────────────────────────────────────────────────────────────
+export function getAccountXpub(mnemonic: string, passphrase = ''): string {
+  return ethers.HDNodeWallet.fromPhrase(mnemonic, passphrase, DERIVATION_BASE).neuter().extendedKey;
+}
+
+export function deriveAccountAddress(xpub: string, index: number): string {
+  return ethers.HDNodeWallet.fromExtendedKey(xpub).deriveChild(index).address;
+}
+
+// `accounts` (from discovery) replaces the default single account at index 0;
+// the first one becomes selected.
+export function createWalletMeta(
+  address: string,
+  opts: {
+    type: WalletType;
+    name: string;
+    xpub?: string;
+    hasPassphrase?: boolean;
+    backupVerified: boolean;
+    accounts?: { address: string; path: string }[];
+  },
+): WalletMeta {
+  const accounts = opts.accounts?.length
+    ? accountsFromPaths(opts.accounts)
+    : [{ index: 0, name: 'Account 1', address, hidden: false }];
+  return {
+    id: ethers.hexlify(ethers.randomBytes(8)).slice(2),
+    type: opts.type,
+    name: opts.name,
+    address: accounts[0].address,
+    accounts,
+    selectedAccount: accounts[0].index,
+    xpub: opts.xpub,
+    hasPassphrase: opts.hasPassphrase ?? false,
+    createdAt: Date.now(),
+    backupVerified: opts.backupVerified,
+  };
+}
+
+// Standard-template paths keep their address index; other paths get ids
+// above every standard index so addDerivedAccount() never collides with them.
+function accountsFromPaths(found: { address: string; path: string }[]): WalletAccount[] {
+  const standard = found.map(f => standardPathIndex(f.path));
+  let nextId = Math.max(-1, ...standard.filter((i): i is number => i !== null)) + 1;
+  return found.map((f, i) => {
+    const index = standard[i] ?? nextId++;
+    return {
+      index,
+      name: `Account ${i + 1}`,
+      address: f.address,
+      hidden: false,
+      path: standard[i] === null ? f.path : undefined,
+    };
+  });
+}
+
+export function addDerivedAccount(meta: WalletMeta, name?: string): WalletMeta {
+  if (meta.type !== 'hd' || !meta.xpub) {
+    throw new Error('This wallet cannot derive additional accounts');
+  }
+  const index = Math.max(...meta.accounts.map(a => a.index)) + 1;
+  const account: WalletAccount = {
+    index,
+    name: name?.trim() || `Account ${index + 1}`,
+    address: deriveAccountAddress(meta.xpub, index),
+    hidden: false,
+  };
+  return { ...meta, accounts: [...meta.accounts, account] };
+}
+
+export function updateAccount(
+  meta: WalletMeta,
+  index: number,
+  patch: Partial<Pick<WalletAccount, 'name' | 'hidden'>>,
+): WalletMeta {
+  if (patch.hidden && index === meta.selectedAccount) {
+    throw new Error('Switch to another account before hiding this one');
+  }
+  return {
+    ...meta,
+    accounts: meta.accounts.map(a => (a.index === index ? { ...a, ...patch } : a)),
+  };
+}
+
+export function selectedAccountRef(meta: WalletMeta): AccountRef {
+  return { walletId: meta.id, index: meta.selectedAccount };
+}
+
+export function switchAccount(meta: WalletMeta, index: number): WalletMeta {
+  const account = meta.accounts.find(a => a.index === index);
+  if (!account) throw new Error(`Unknown account #${index}`);
+  return {
+    ...meta,
+    selectedAccount: index,
+    address: account.address,
+    accounts: meta.accounts.map(a => (a.index === index ? { ...a, hidden: false } : a)),
+  };
+}
+
 // ─── Save mnemonic securely ───────────────────────────────────────────────────
-export async function saveMnemonic(mnemonic: string, pin: string): Promise<void> {
-  // Encrypt with PIN before storing in Keychain
-  const encrypted = encryptWithPin(mnemonic, pin);
-  await Keychain.setGenericPassword(MNEMONIC_SERVICE, encrypted, {
-    service: MNEMONIC_SERVICE,
+export async function saveMnemonic(walletId: string, mnemonic: string, pin: string): Promise<void> {
+  // Encrypt into a versioned vault envelope before storing in Keychain
+  const encrypted = await encryptVault(mnemonic, pin);
+  await storeSecret(mnemonicService(walletId), encrypted);
+}
+
+// ─── Load and decrypt mnemonic ────────────────────────────────────────────────
+// Throws InvalidPinError on a wrong PIN.
+export async function loadMnemonic(walletId: string, pin: string): Promise<string> {
+  return loadSecret(mnemonicService(walletId), pin);
+}
+
+// ─── BIP-39 passphrase ────────────────────────────────────────────────────────
+// An empty passphrase removes the stored one.
+export async function savePassphrase(walletId: string, passphrase: string, pin: string): Promise<void> {
+  const service = passphraseService(walletId);
+  if (!passphrase) {
+    await Keychain.resetGenericPassword({ service });
+    return;
+  }
+  await storeSecret(service, await encryptVault(passphrase, pin));
+}
+
+export async function loadPassphrase(walletId: string, pin: string): Promise<string> {
+  const result = await Keychain.getGenericPassword({ service: passphraseService(walletId) });
+  return result ? decryptVault(result.password, pin) : '';
+}
+
+// Re-derives every account under a different passphrase, which reaches the
+// "hidden" wallet that passphrase protects. Account names and indexes are kept.
+export async function changeWalletPassphrase(
+  meta: WalletMeta,
+  passphrase: string,
+  pin: string,
+): Promise<WalletMeta> {
+  if (meta.type !== 'hd') throw new Error('Only recovery-phrase wallets support a passphrase');
+  const mnemonic = await loadMnemonic(meta.id, pin);
+  const xpub     = getAccountXpub(mnemonic, passphrase);
+  const accounts = meta.accounts.map(a => ({
+    ...a,
+    address: a.path
+      ? ethers.HDNodeWallet.fromPhrase(mnemonic, passphrase, a.path).address
+      : deriveAccountAddress(xpub, a.index),
+  }));
+  await savePassphrase(meta.id, passphrase, pin);
+  clearSession();
+  return {
+    ...meta,
+    xpub,
+    accounts,
+    address: accounts.find(a => a.index === meta.selectedAccount)!.address,
+    hasPassphrase: passphrase.length > 0,
+  };
+}
+
+// ─── Private-key wallets ──────────────────────────────────────────────────────
+export async function savePrivateKey(walletId: string, privateKey: string, pin: string): Promise<void> {
+  const encrypted = await encryptVault(normalizePrivateKey(privateKey), pin);
+  await storeSecret(privateKeyService(walletId), encrypted);
+}
+
+export async function loadPrivateKey(walletId: string, pin: string): Promise<string> {
+  return loadSecret(privateKeyService(walletId), pin);
+}
+
+// ─── Backup export ────────────────────────────────────────────────────────────
+// The secret that restores this wallet elsewhere. Watch-only wallets have none.
+export async function loadWalletSecret(meta: WalletMeta, pin: string): Promise<WalletSecret> {
+  switch (meta.type) {
+    case 'hd':
+      return {
+        type: 'mnemonic',
+        value: await loadMnemonic(meta.id, pin),
+        passphrase: await loadPassphrase(meta.id, pin),
+      };
+    case 'privateKey':
+      return { type: 'privateKey', value: await loadPrivateKey(meta.id, pin) };
+    case 'watchOnly':
+      throw new Error('Watch-only wallets have no secret to back up');
+  }
+}
+
+// Legacy XOR blobs are upgraded to the vault format on the first successful unlock.
+async function loadSecret(service: string, pin: string): Promise<string> {
+  const result = await Keychain.getGenericPassword({ service });
+  if (!result) throw new Error('No wallet stored on this device');
+  if (!isLegacyVault(result.password)) {
+    return decryptVault(result.password, pin);
+  }
+
+  // v0 XOR has no authentication: only a plausible secret proves the PIN.
+  const secret = decryptLegacyVault(result.password, pin);
+  if (!isPlausibleSecret(secret)) throw new InvalidPinError();
+  await storeSecret(service, await encryptVault(secret, pin));
+  return secret;
+}
+
+function mnemonicService(walletId: string): string {
+  return walletId === LEGACY_WALLET_ID ? MNEMONIC_SERVICE : `${MNEMONIC_SERVICE}.${walletId}`;
+}
+
+function privateKeyService(walletId: string): string {
+  return `${PRIVATE_KEY_SERVICE}.${walletId}`;
+}
+
+function passphraseService(walletId: string): string {
+  return `${PASSPHRASE_SERVICE}.${walletId}`;
+}
+
+async function resetSecrets(walletId: string): Promise<void> {
+  await Keychain.resetGenericPassword({ service: mnemonicService(walletId) });
+  await Keychain.resetGenericPassword({ service: privateKeyService(walletId) });
+  await Keychain.resetGenericPassword({ service: passphraseService(walletId) });
+}
+
+// ─── PIN verifier ─────────────────────────────────────────────────────────────
+export async function savePinVerifier(pin: string): Promise<void> {
+  await storeVerifier(await encryptVault(PIN_CHECK, pin));
+}
+
+async function storeVerifier(blob: string): Promise<void> {
+  await Keychain.setGenericPassword(PIN_VERIFIER_SERVICE, blob, {
+    service: PIN_VERIFIER_SERVICE,
+    accessible: Keychain.ACCESSIBLE.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  });
+}
+
+// Resolves false for a wrong PIN; rejects only on storage errors.
+// The wallet created before the verifier existed is checked against its
+// mnemonic vault once, then gets a verifier written.
+export async function verifyPin(pin: string): Promise<boolean> {
+  try {
+    const result = await Keychain.getGenericPassword({ service: PIN_VERIFIER_SERVICE });
+    if (result) {
+      return (await decryptVault(result.password, pin)) === PIN_CHECK;
+    }
+    await loadMnemonic(LEGACY_WALLET_ID, pin);
+    await savePinVerifier(pin);
+    return true;
+  } catch (e) {
+    if (e instanceof InvalidPinError) return false;
+    throw e;
+  }
+}
+
+// ─── Change PIN ───────────────────────────────────────────────────────────────
+// Every secret is re-encrypted in memory first; then the old and new blobs of
+// every service are journaled before the keychain is touched. A failed write
+// rolls the services back to the old blobs. If the app dies mid-write,
+// completePinChange() rolls forward on the next launch. Either way each
+// service ends up under one PIN, the same one as the verifier.
+interface PinChangeEntry {
+  service: string;
+  oldBlob: string;
+  newBlob: string;
+}
+
+export async function changePin(oldPin: string, newPin: string): Promise<void> {
+  if (!(await verifyPin(oldPin))) throw new InvalidPinError();
+  await completePinChange();
+
+  const entries: PinChangeEntry[] = [];
+  const { ids } = await loadWalletIndex();
+  for (const id of ids) {
+    for (const service of [mnemonicService(id), privateKeyService(id), passphraseService(id)]) {
+      if (!(await Keychain.getGenericPassword({ service }))) continue;
+      const secret  = await loadSecret(service, oldPin);
+      // loadSecret may have just upgraded a legacy blob; journal what is stored now
+      const current = await Keychain.getGenericPassword({ service });
+      entries.push({ service, oldBlob: current ? current.password : '', newBlob: await encryptVault(secret, newPin) });
+    }
+  }
+  const verifier = await Keychain.getGenericPassword({ service: PIN_VERIFIER_SERVICE });
+  entries.push({
+    service: PIN_VERIFIER_SERVICE,
+    oldBlob: verifier ? verifier.password : '',
+    newBlob: await encryptVault(PIN_CHECK, newPin),
+  });
+
+  await EncryptedStorage.setItem(PIN_CHANGE_JOURNAL_KEY, JSON.stringify(entries));
+  try {
+    await writePinChange(entries, 'newBlob');
+  } catch (e) {
+    // Leave the journal in place if the rollback fails too: the next launch
+    // rolls forward instead.
+    await writePinChange(entries, 'oldBlob');
+    await EncryptedStorage.removeItem(PIN_CHANGE_JOURNAL_KEY);
+    throw e;
+  }
+  await EncryptedStorage.removeItem(PIN_CHANGE_JOURNAL_KEY);
+}
+
+// Finishes a PIN change interrupted by a crash. Call before any PIN check.
+// Resolves true when a journal was replayed.
+export async function completePinChange(): Promise<boolean> {
+  const raw = await EncryptedStorage.getItem(PIN_CHANGE_JOURNAL_KEY);
+  if (!raw) return false;
+  await writePinChange(JSON.parse(raw), 'newBlob');
+  await EncryptedStorage.removeItem(PIN_CHANGE_JOURNAL_KEY);
+  // The biometric credential still wraps the old PIN
+  await disableBiometrics();
+  return true;
+}
+
+async function writePinChange(entries: PinChangeEntry[], side: 'oldBlob' | 'newBlob'): Promise<void> {
+  for (const entry of entries) {
+    const blob = entry[side];
+    if (!blob) {
+      await Keychain.resetGenericPassword({ service: entry.service });
+    } else if (entry.service === PIN_VERIFIER_SERVICE) {
+      await storeVerifier(blob);
+    } else {
+      await storeSecret(entry.service, blob);
+    }
+  }
+}
+
+function isPlausibleSecret(secret: string): boolean {
+  return bip39.validateMnemonic(secret) || /^(0x)?[0-9a-fA-F]{64}$/.test(secret);
+}
+
+async function storeSecret(service: string, blob: string): Promise<void> {
+  await Keychain.setGenericPassword(service, blob, {
+    service,
     accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_ANY_OR_DEVICE_PASSCODE,
     accessible: Keychain.ACCESSIBLE.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
   });
 }
 
-// ─── Load and decrypt mnemonic ────────────────────────────────────────────────
-export async function loadMnemonic(pin: string): Promise<string> {
-  const result = await Keychain.getGenericPassword({ service: MNEMONIC_SERVICE });
-  if (!result) throw new Error('No wallet stored on this device');
-  return decryptWithPin(result.password, pin);
+// ─── Keyring registry ─────────────────────────────────────────────────────────
+async function loadWalletIndex(): Promise<WalletIndex> {
+  const raw = await EncryptedStorage.getItem(WALLET_INDEX_KEY);
+  if (raw) return JSON.parse(raw);
+
+  // Single-wallet installs: adopt the old `wallet_meta` record as a keyring.
+  const legacy = await EncryptedStorage.getItem(LEGACY_META_KEY);
+  if (!legacy) return { ids: [], activeId: null };
+  const meta  = normalizeWalletMeta({ id: LEGACY_WALLET_ID, name: 'Wallet 1', ...JSON.parse(legacy) });
+  const index = { ids: [meta.id], activeId: meta.id };
+  await EncryptedStorage.setItem(WALLET_META_PREFIX + meta.id, JSON.stringify(meta));
+  await saveWalletIndex(index);
+  await EncryptedStorage.removeItem(LEGACY_META_KEY);
+  return index;
+}
+
+async function saveWalletIndex(index: WalletIndex): Promise<void> {
+  await EncryptedStorage.setItem(WALLET_INDEX_KEY, JSON.stringify(index));
+}
+
+export async function listWallets(): Promise<WalletMeta[]> {
+  const { ids } = await loadWalletIndex();
+  const metas = await Promise.all(ids.map(loadWalletMetaById));
+  return metas.filter((m): m is WalletMeta => m !== null);
+}
+
+export async function setActiveWallet(walletId: string): Promise<WalletMeta> {
+  const index = await loadWalletIndex();
+  if (!index.ids.includes(walletId)) throw new Error('Unknown wallet');
+  await saveWalletIndex({ ...index, activeId: walletId });
+  return (await loadWalletMetaById(walletId))!;
 }
 
 // ─── Save wallet metadata (non-sensitive) ─────────────────────────────────────
+// Registers new wallets in the index and makes the first one active.
 export async function saveWalletMeta(meta: WalletMeta): Promise<void> {
-  await EncryptedStorage.setItem(WALLET_META_KEY, JSON.stringify(meta));
+  await EncryptedStorage.setItem(WALLET_META_PREFIX + meta.id, JSON.stringify(meta));
+  const index = await loadWalletIndex();
+  if (!index.ids.includes(meta.id)) {
+    await saveWalletIndex({ ids: [...index.ids, meta.id], activeId: index.activeId ?? meta.id });
+  }
 }
 
 // ─── Load wallet metadata ─────────────────────────────────────────────────────
+// Returns the active wallet.
 export async function loadWalletMeta(): Promise<WalletMeta | null> {
-  const raw = await EncryptedStorage.getItem(WALLET_META_KEY);
-  return raw ? JSON.parse(raw) : null;
+  const { activeId } = await loadWalletIndex();
+  return activeId ? loadWalletMetaById(activeId) : null;
+}
+
+export async function loadWalletMetaById(walletId: string): Promise<WalletMeta | null> {
+  const raw = await EncryptedStorage.getItem(WALLET_META_PREFIX + walletId);
+  return raw ? normalizeWalletMeta(JSON.parse(raw)) : null;
+}
+
+// Metadata written before multi-account support only has `address`; before
+// wallet types, imported private keys sat in the mnemonic slot as 'hd' wallets
+// without an xpub until upgradeWalletMeta() moves them. Fields missing from
+// older records get defaults; anything else malformed is rejected.
+function normalizeWalletMeta(raw: unknown): WalletMeta {
+  if (!isRecord(raw)) throw corruptMeta('not an object');
+  const address = stringField(raw, 'address');
+  const type    = raw.type ?? 'hd';
+  if (type !== 'hd' && type !== 'privateKey' && type !== 'watchOnly') throw corruptMeta('type');
+
+  let accounts: WalletAccount[];
+  let selectedAccount: number;
+  if (raw.accounts === undefined) {
+    accounts = [{ index: 0, name: 'Account 1', address, hidden: false }];
+    selectedAccount = 0;
+  } else {
+    if (!Array.isArray(raw.accounts)) throw corruptMeta('accounts');
+    accounts = raw.accounts.map(normalizeAccount);
+    selectedAccount = numberField(raw, 'selectedAccount');
+  }
+
+  const meta: WalletMeta = {
+    id: stringField(raw, 'id'),
+    type,
+    name: stringField(raw, 'name'),
+    address,
+    accounts,
+    selectedAccount,
+    hasPassphrase: optionalField(raw, 'hasPassphrase', 'boolean') ?? false,
+    createdAt: optionalField(raw, 'createdAt', 'number') ?? 0,
+    backupVerified: optionalField(raw, 'backupVerified', 'boolean') ?? false,
+  };
+  const xpub = optionalField(raw, 'xpub', 'string');
+  if (xpub !== undefined) meta.xpub = xpub;
+  return meta;
+}
+
+function normalizeAccount(raw: unknown): WalletAccount {
+  if (!isRecord(raw)) throw corruptMeta('account');
+  const account: WalletAccount = {
+    index: numberField(raw, 'index'),
+    name: stringField(raw, 'name'),
+    address: stringField(raw, 'address'),
+    hidden: optionalField(raw, 'hidden', 'boolean') ?? false,
+  };
+  const path = optionalField(raw, 'path', 'string');
+  if (path !== undefined) account.path = path;
+  return account;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringField(raw: Record<string, unknown>, key: string): string {
+  const value = raw[key];
+  if (typeof value !== 'string') throw corruptMeta(key);
+  return value;
+}
+
+function numberField(raw: Record<string, unknown>, key: string): number {
+  const value = raw[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw corruptMeta(key);
+  return value;
+}
+
+function optionalField<K extends 'string' | 'number' | 'boolean'>(
+  raw: Record<string, unknown>,
+  key: string,
+  kind: K,
+): { string: string; number: number; boolean: boolean }[K] | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== kind) throw corruptMeta(key);
+  return value as { string: string; number: number; boolean: boolean }[K];
+}
+
+function corruptMeta(field: string): Error {
+  return new Error(`Stored wallet metadata is corrupt (${field})`);
+}
+
+// ─── Post-unlock upgrades ─────────────────────────────────────────────────────
+// Fills in metadata that can only be computed from the secret, so it runs
+// right after a successful PIN entry. Returns the (possibly updated) active wallet.
+export async function upgradeWalletMeta(pin: string): Promise<WalletMeta | null> {
+  for (const meta of await listWallets()) {
+    if (meta.type !== 'hd' || meta.xpub) continue;
+    const secret = await loadMnemonic(meta.id, pin);
+    if (bip39.validateMnemonic(secret)) {
+      const passphrase = await loadPassphrase(meta.id, pin);
+      await saveWalletMeta({ ...meta, xpub: getAccountXpub(secret, passphrase) });
+    } else {
+      // Private key imported before wallet types existed
+      await savePrivateKey(meta.id, secret, pin);
+      await Keychain.resetGenericPassword({ service: mnemonicService(meta.id) });
+      await saveWalletMeta({ ...meta, type: 'privateKey' });
+    }
+  }
+  return loadWalletMeta();
+}
+
+// ─── Delete wallet ────────────────────────────────────────────────────────────
+// Removes one keyring. Returns the wallet that became active, or null once the
+// last wallet is gone (the PIN verifier is wiped with it).
+export async function deleteWallet(walletId: string): Promise<WalletMeta | null> {
+  clearSession();
+  await resetSecrets(walletId);
+  await EncryptedStorage.removeItem(WALLET_META_PREFIX + walletId);
+
+  const index = await loadWalletIndex();
+  const ids   = index.ids.filter(id => id !== walletId);
+  const activeId = index.activeId === walletId ? ids[0] ?? null : index.activeId;
+  await saveWalletIndex({ ids, activeId });
+  if (ids.length === 0) {
+    await Keychain.resetGenericPassword({ service: PIN_VERIFIER_SERVICE });
+    return null;
+  }
+  return loadWalletMetaById(activeId!);
 }
 
-// ─── Delete wallet (wipe) ─────────────────────────────────────────────────────
-export async function deleteWallet(): Promise<void> {
-  await Keychain.resetGenericPassword({ service: MNEMONIC_SERVICE });
-  await EncryptedStorage.removeItem(WALLET_META_KEY);
+// ─── Delete all wallets (wipe) ────────────────────────────────────────────────
+export async function deleteAllWallets(): Promise<void> {
+  clearSession();
+  const { ids } = await loadWalletIndex();
+  for (const id of ids) {
+    await resetSecrets(id);
+    await EncryptedStorage.removeItem(WALLET_META_PREFIX + id);
+  }
+  await Keychain.resetGenericPassword({ service: PIN_VERIFIER_SERVICE });
+  await EncryptedStorage.removeItem(WALLET_INDEX_KEY);
+  await EncryptedStorage.removeItem(PIN_CHANGE_JOURNAL_KEY);
+  await clearTransactions();
+  await disableBiometrics();
 }
 
 // ─── Get ethers signer for a chain ───────────────────────────────────────────
-export async function getSigner(chainKey: ChainKey, pin: string): Promise<ethers.Wallet> {
-  const mnemonic = await loadMnemonic(pin);
-  const chain    = CHAINS[chainKey];
-  const provider = new ethers.JsonRpcProvider(chain.rpcUrl);
-  const hdNode   = ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, DERIVATION_PATH);
-  return new ethers.Wallet(hdNode.privateKey, provider);
+// A null PIN signs with the session key (see session.ts) and throws
+// SessionExpiredError when none is cached. A PIN refreshes the session key.
+export async function getSigner(
+  chainKey: ChainKey,
+  pin: string | null,
+  account: AccountRef,
+): Promise<ethers.Wallet> {
+  const provider = new ethers.JsonRpcProvider(CHAINS[chainKey].rpcUrl);
+  if (pin === null) return new ethers.Wallet(sessionPrivateKey(account), provider);
+  const since      = sessionEpoch();
+  const privateKey = await loadAccountPrivateKey(pin, account);
+  await loadSessionTtl();
+  rememberKey(account, privateKey, since);
+  return new ethers.Wallet(privateKey, provider);
+}
+
+// Derives the selected account's key right after unlock so the first routine
+// send does not need the PIN again.
+export async function openSigningSession(pin: string, account: AccountRef): Promise<void> {
+  const since = sessionEpoch();
+  await loadSessionTtl();
+  rememberKey(account, await loadAccountPrivateKey(pin, account), since);
+}
+
+// Private key of one account; used for signing and keystore export.
+export async function loadAccountPrivateKey(pin: string, account: AccountRef): Promise<string> {
+  const meta = await loadWalletMetaById(account.walletId);
+  if (!meta) throw new Error('Unknown wallet');
+
+  switch (meta.type) {
+    case 'hd': {
+      const mnemonic   = await loadMnemonic(meta.id, pin);
+      const passphrase = await loadPassphrase(meta.id, pin);
+      const target     = meta.accounts.find(a => a.index === account.index);
+      if (!target) throw new Error(`Unknown account #${account.index}`);
+      const hdNode     = ethers.HDNodeWallet.fromPhrase(mnemonic, passphrase, accountPath(target));
+      // Guards against signing from an address the UI never showed (e.g. a
+      // passphrase change interrupted between saving the secret and the metadata)
+      if (hdNode.address !== target.address) {
+        throw new Error('Derived address does not match this account. Re-enter the wallet passphrase.');
+      }
+      return hdNode.privateKey;
+    }
+    case 'privateKey':
+      return loadPrivateKey(meta.id, pin);
+    case 'watchOnly':
+      throw new Error('This wallet is watch-only and cannot sign');
+  }
 }
 
 // ─── Get read-only provider ───────────────────────────────────────────────────
@@ -110,6 +733,11 @@ export async function getNativeBalance(address: string, chainKey: ChainKey): Pro
   return ethers.formatEther(balance);
 }
 
+// ─── Get transaction count (nonce) ────────────────────────────────────────────
+export async function getTransactionCount(address: string, chainKey: ChainKey): Promise<number> {
+  return getProvider(chainKey).getTransactionCount(address);
+}
+
 // ─── Get ERC-20 token balance ─────────────────────────────────────────────────
 const ERC20_ABI = [
   'function balanceOf(address) view returns (uint256)',
@@ -121,7 +749,7 @@ export async function getTokenBalance(
   tokenAddress: string,
   walletAddress: string,
   chainKey: ChainKey,
-): Promise<{ balance: string; symbol: string }> {
+): Promise<{ balance: string; symbol: string; decimals: number }> {
   const provider = getProvider(chainKey);
   const contract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
   const [rawBalance, decimals, symbol] = await Promise.all([
@@ -129,7 +757,7 @@ export async function getTokenBalance(
     contract.decimals(),
     contract.symbol(),
   ]);
-  return { balance: ethers.formatUnits(rawBalance, decimals), symbol };
+  return { balance: ethers.formatUnits(rawBalance, decimals), symbol, decimals: Number(decimals) };
 }
 
 // ─── Send native token ────────────────────────────────────────────────────────
@@ -137,13 +765,17 @@ export async function sendNative(
   to: string,
   amountEther: string,
   chainKey: ChainKey,
-  pin: string,
+  pin: string | null,
+  account: AccountRef,
+  fees?: FeeParams,
 ): Promise<ethers.TransactionResponse> {
-  const signer = await getSigner(chainKey, pin);
-  return signer.sendTransaction({
+  const signer = await getSigner(chainKey, pin, account);
+  return withNonce(chainKey, signer, (nonce) => signer.sendTransaction({
     to,
     value: ethers.parseEther(amountEther),
-  });
+    nonce,
+    ...fees,
+  }));
 }
 
 // ─── Send ERC-20 token ────────────────────────────────────────────────────────
@@ -157,30 +789,18 @@ export async function sendToken(
   to: string,
   amount: string,
   chainKey: ChainKey,
-  pin: string,
+  pin: string | null,
+  account: AccountRef,
+  fees?: FeeParams,
 ): Promise<ethers.TransactionResponse> {
-  const signer   = await getSigner(chainKey, pin);
+  const signer   = await getSigner(chainKey, pin, account);
   const contract = new ethers.Contract(tokenAddress, ERC20_TRANSFER_ABI, signer);
   const decimals = await contract.decimals();
-  return contract.transfer(to, ethers.parseUnits(amount, decimals));
+  return withNonce(chainKey, signer, (nonce) =>
+    contract.transfer(to, ethers.parseUnits(amount, decimals), { nonce, ...fees }));
 }
 
-// ─── Simple XOR PIN encryption (replace with AES in production) ───────────────
-function encryptWithPin(text: string, pin: string): string {
-  const key = pin.repeat(Math.ceil(text.length / pin.length)).slice(0, text.length);
-  let result = '';
-  for (let i = 0; i < text.length; i++) {
-    result += String.fromCharCode(text.charCodeAt(i) ^ key.charCodeAt(i));
-  }
-  return Buffer.from(result, 'binary').toString('base64');
+// Calldata of an ERC-20 transfer, for gas estimation before signing
+export function encodeTokenTransfer(to: string, amount: bigint): string {
+  return new ethers.Interface(ERC20_TRANSFER_ABI).encodeFunctionData('transfer', [to, amount]);
 }
-
-function decryptWithPin(encoded: string, pin: string): string {
-  const text = Buffer.from(encoded, 'base64').toString('binary');
-  const key  = pin.repeat(Math.ceil(text.length / pin.length)).slice(0, text.length);
-  let result = '';
-  for (let i = 0; i < text.length; i++) {
-    result += String.fromCharCode(text.charCodeAt(i) ^ key.charCodeAt(i));
-  }
-  return result;
-}
\ No newline at end of file
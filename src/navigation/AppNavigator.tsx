@@ -2,19 +2,27 @@
  * AppNavigator.tsx — Root navigation tree
  * Stack: Auth (Onboarding/CreateWallet/ImportWallet/SetPin) → Main (Tabs)
  */
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect } from 'react';
+import {
+  NavigationContainer, NavigatorScreenParams, createNavigationContainerRef,
+} from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
 
 import { Colors } from '../constants/theme';
 import { useWalletStore } from '../store/walletStore';
+import { startAutoLock, recordActivity } from '../core/autolock';
+import { startTxTracker } from '../core/txTracker';
+import { startIndexer } from '../core/indexer';
 
 // ── Auth Screens ────────────────────────────────────────────────────────────────
 import OnboardingScreen   from '../screens/auth/OnboardingScreen';
 import CreateWalletScreen from '../screens/auth/CreateWalletScreen';
 import ImportWalletScreen from '../screens/auth/ImportWalletScreen';
+import DiscoverAccountsScreen from '../screens/auth/DiscoverAccountsScreen';
+import VerifyBackupScreen from '../screens/auth/VerifyBackupScreen';
+import ShamirSetupScreen  from '../screens/auth/ShamirSetupScreen';
 import SetPinScreen       from '../screens/auth/SetPinScreen';
 import UnlockScreen       from '../screens/auth/UnlockScreen';
 
@@ -27,13 +35,35 @@ import DAppScreen    from '../screens/main/DAppScreen';
 import NFTScreen     from '../screens/main/NFTScreen';
 import StakingScreen from '../screens/main/StakingScreen';
 import SettingsScreen from '../screens/main/SettingsScreen';
+import AccountsScreen from '../screens/main/AccountsScreen';
+import WalletsScreen  from '../screens/main/WalletsScreen';
+import PassphraseScreen from '../screens/main/PassphraseScreen';
+import BackupQuizScreen from '../screens/main/BackupQuizScreen';
+import ShamirBackupScreen from '../screens/main/ShamirBackupScreen';
+import ExportKeystoreScreen from '../screens/main/ExportKeystoreScreen';
+import BiometricSetupScreen from '../screens/main/BiometricSetupScreen';
+import ChangePinScreen from '../screens/main/ChangePinScreen';
+import RevealSecretScreen from '../screens/main/RevealSecretScreen';
+import TransactionDetailScreen from '../screens/main/TransactionDetailScreen';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 export type AuthStackParams = {
   Onboarding: undefined;
   CreateWallet: undefined;
-  ImportWallet: undefined;
-  SetPin: { mnemonic?: string; privateKey?: string; isNew: boolean };
+  VerifyBackup: { mnemonic: string; passphrase?: string };
+  ShamirSetup: { mnemonic: string; passphrase?: string };
+  ImportWallet: { resetPin?: boolean } | undefined;
+  DiscoverAccounts: { mnemonic: string; passphrase?: string; resetPin?: boolean };
+  SetPin: {
+    mnemonic?: string;
+    passphrase?: string;
+    accounts?: { address: string; path: string }[];   // chosen in DiscoverAccounts
+    privateKey?: string;
+    watchAddress?: string;
+    isNew: boolean;
+    backupVerified?: boolean;   // new phrase passed the backup quiz
+    resetPin?: boolean;         // forgot-PIN flow, confirmed on Unlock: wipe and choose a new PIN
+  };
   Unlock: undefined;
 };
 
@@ -46,11 +76,22 @@ export type MainTabParams = {
 };
 
 export type RootStackParams = {
-  Auth: undefined;
+  Auth: NavigatorScreenParams<AuthStackParams> | undefined;
   Main: undefined;
   Send: { chainKey?: string };
   Receive: undefined;
   Staking: undefined;
+  Accounts: undefined;
+  Wallets: undefined;
+  Passphrase: undefined;
+  BackupQuiz: undefined;
+  ShamirBackup: undefined;
+  ExportKeystore: { index: number };
+  BiometricSetup: undefined;
+  ChangePin: undefined;
+  RevealSecret: undefined;
+  // A journal entry; token transfers share the hash with their native entry
+  TransactionDetail: { chainKey: string; hash: string; contractAddress?: string };
 };
 
 const AuthStack = createNativeStackNavigator<AuthStackParams>();
@@ -111,11 +152,17 @@ function MainTabs() {
 
 // ── Auth Stack ──────────────────────────────────────────────────────────────────
 function AuthFlow() {
+  const hasWallet = useWalletStore(s => !!s.meta);
   return (
-    <AuthStack.Navigator screenOptions={{ headerShown: false, animation: 'slide_from_right' }}>
+    <AuthStack.Navigator
+      initialRouteName={hasWallet ? 'Unlock' : 'Onboarding'}
+      screenOptions={{ headerShown: false, animation: 'slide_from_right' }}>
       <AuthStack.Screen name="Onboarding"   component={OnboardingScreen} />
       <AuthStack.Screen name="CreateWallet" component={CreateWalletScreen} />
+      <AuthStack.Screen name="VerifyBackup" component={VerifyBackupScreen} />
+      <AuthStack.Screen name="ShamirSetup"  component={ShamirSetupScreen} />
       <AuthStack.Screen name="ImportWallet" component={ImportWalletScreen} />
+      <AuthStack.Screen name="DiscoverAccounts" component={DiscoverAccountsScreen} />
       <AuthStack.Screen name="SetPin"       component={SetPinScreen} />
       <AuthStack.Screen name="Unlock"       component={UnlockScreen} />
     </AuthStack.Navigator>
@@ -123,10 +170,43 @@ function AuthFlow() {
 }
 
 // ── Root Navigator ───────────────────────────────────────────────────────────────
+// ── Locking ──────────────────────────────────────────────────────────────────────
+export const navigationRef = createNavigationContainerRef<RootStackParams>();
+
+// Resetting the stack unmounts every screen, dropping any secret they hold.
+export function lockAndShowUnlock() {
+  useWalletStore.getState().lock();
+  if (navigationRef.isReady()) {
+    navigationRef.reset({ index: 0, routes: [{ name: 'Auth', params: { screen: 'Unlock' } }] });
+  }
+}
+
 export default function AppNavigator() {
   const { meta, isUnlocked, isLoading } = useWalletStore();
 
-  if (isLoading) {
+  useEffect(() => startAutoLock(() => {
+    if (useWalletStore.getState().isUnlocked) lockAndShowUnlock();
+  }), []);
+
+  // Receipts are public, so tracking runs whether or not the wallet is unlocked
+  useEffect(() => startTxTracker(
+    () => useWalletStore.getState().transactions.filter(tx => tx.status === 'pending'),
+    (hash, result) => useWalletStore.getState().updateTxStatus(hash, result.status, result),
+  ), []);
+
+  // Restarted on unlock and account switch so the new address is scanned at once
+  const indexedAddress = isUnlocked ? meta?.address ?? null : null;
+  useEffect(() => {
+    if (!indexedAddress) return;
+    return startIndexer(() => indexedAddress, (found) => {
+      const store = useWalletStore.getState();
+      store.mergeTransactions(found);
+      if (found.some(tx => tx.type === 'receive')) store.refreshBalances();
+    });
+  }, [indexedAddress]);
+
+  // Balance refreshes also toggle isLoading; only block on the initial load
+  if (isLoading && !meta) {
     return (
       <View style={styles.loader}>
         <ActivityIndicator size="large" color={Colors.primary} />
@@ -140,32 +220,87 @@ export default function AppNavigator() {
     !hasWallet ? 'Auth' : !isUnlocked ? 'Auth' : 'Main';
 
   return (
-    <NavigationContainer>
-      <RootStack.Navigator
-        initialRouteName={initialRoute}
-        screenOptions={{ headerShown: false }}>
-        <RootStack.Screen name="Auth"    component={AuthFlow} />
-        <RootStack.Screen name="Main"    component={MainTabs} />
-        <RootStack.Screen
-          name="Send"
-          component={SendScreen}
-          options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
-        />
-        <RootStack.Screen
-          name="Receive"
-          component={ReceiveScreen}
-          options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
-        />
-        <RootStack.Screen
-          name="Staking"
-          component={StakingScreen}
-          options={{ animation: 'slide_from_right' }}
-        />
-      </RootStack.Navigator>
-    </NavigationContainer>
+    <View
+      style={styles.root}
+      onStartShouldSetResponderCapture={() => { recordActivity(); return false; }}>
+      <NavigationContainer ref={navigationRef}>
+        <RootStack.Navigator
+          initialRouteName={initialRoute}
+          screenOptions={{ headerShown: false }}>
+          <RootStack.Screen name="Auth"    component={AuthFlow} />
+          <RootStack.Screen name="Main"    component={MainTabs} />
+          <RootStack.Screen
+            name="Send"
+            component={SendScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="Receive"
+            component={ReceiveScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="Staking"
+            component={StakingScreen}
+            options={{ animation: 'slide_from_right' }}
+          />
+          <RootStack.Screen
+            name="Accounts"
+            component={AccountsScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="BackupQuiz"
+            component={BackupQuizScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="ShamirBackup"
+            component={ShamirBackupScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="ExportKeystore"
+            component={ExportKeystoreScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="BiometricSetup"
+            component={BiometricSetupScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="ChangePin"
+            component={ChangePinScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="RevealSecret"
+            component={RevealSecretScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="Passphrase"
+            component={PassphraseScreen}
+            options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+          />
+          <RootStack.Screen
+            name="TransactionDetail"
+            component={TransactionDetailScreen}
+            options={{ animation: 'slide_from_right' }}
+          />
+          <RootStack.Screen
+            name="Wallets"
+            component={WalletsScreen}
+            options={{ animation: 'slide_from_right' }}
+          />
+        </RootStack.Navigator>
+      </NavigationContainer>
+    </View>
   );
 }
 
 const styles = StyleSheet.create({
+  root:   { flex: 1 },
   loader: { flex: 1, backgroundColor: Colors.bg, justifyContent: 'center', alignItems: 'center' },
 });
\ No newline at end of file
@@ -1,17 +1,18 @@
 /**
  * CreateWalletScreen.tsx
- * Generates a 12-word mnemonic, shows it for backup, then routes to SetPin.
+ * Generates a 12-word mnemonic, shows it for backup, then routes to the
+ * backup quiz (VerifyBackup) and SetPin.
  */
 import React, { useEffect, useState, useCallback } from 'react';
 import {
   View, Text, StyleSheet, TouchableOpacity,
   ScrollView, Alert, ActivityIndicator,
 } from 'react-native';
-import Clipboard from '@react-native-clipboard/clipboard';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { AuthStackParams } from '../../navigation/AppNavigator';
 import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
 import { generateWallet } from '../../core/wallet';
+import ActivityTextInput from '../../components/ActivityTextInput';
 
 type Props = { navigation: NativeStackNavigationProp<AuthStackParams, 'CreateWallet'> };
 
@@ -21,6 +22,9 @@ export default function CreateWalletScreen({ navigation }: Props) {
   const [revealed, setRevealed]   = useState(false);
   const [confirmed, setConfirmed] = useState(false);
   const [loading, setLoading]     = useState(true);
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [passphrase, setPassphrase]       = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
 
   const generate = useCallback(async () => {
     setLoading(true);
@@ -37,24 +41,46 @@ export default function CreateWalletScreen({ navigation }: Props) {
 
   useEffect(() => { generate(); }, [generate]);
 
-  const copyToClipboard = () => {
-    Clipboard.setString(mnemonic.join(' '));
-    Alert.alert('Copied', 'Recovery phrase copied. Store it somewhere safe offline.');
+  const goToQuiz = () => navigation.navigate('VerifyBackup', {
+    mnemonic: mnemonic.join(' '),
+    passphrase: usePassphrase ? passphrase : undefined,
+  });
+
+  const passphraseReady = () => {
+    if (!usePassphrase) return true;
+    if (!passphrase) {
+      Alert.alert('Passphrase', 'Enter a passphrase or turn the passphrase option off.');
+      return false;
+    }
+    if (passphrase !== passphraseConfirm) {
+      Alert.alert('Passphrase Mismatch', 'The passphrases do not match.');
+      return false;
+    }
+    return true;
+  };
+
+  const goToShares = () => {
+    if (!passphraseReady()) return;
+    navigation.navigate('ShamirSetup', {
+      mnemonic: mnemonic.join(' '),
+      passphrase: usePassphrase ? passphrase : undefined,
+    });
   };
 
   const proceed = () => {
+    if (!passphraseReady()) return;
     if (!confirmed) {
       Alert.alert(
         'Have you backed up?',
         'Without your recovery phrase you will permanently lose access to your funds.',
         [
           { text: 'Not yet', style: 'cancel' },
-          { text: 'Yes, I saved it', onPress: () => navigation.navigate('SetPin', { mnemonic: mnemonic.join(' '), isNew: true }) },
+          { text: 'Yes, I saved it', onPress: goToQuiz },
         ],
       );
       return;
     }
-    navigation.navigate('SetPin', { mnemonic: mnemonic.join(' '), isNew: true });
+    goToQuiz();
   };
 
   if (loading) {
@@ -104,9 +130,9 @@ export default function CreateWalletScreen({ navigation }: Props) {
 
       {revealed && (
         <>
-          <TouchableOpacity style={styles.copyBtn} onPress={copyToClipboard}>
-            <Text style={styles.copyBtnText}>📋 Copy to clipboard</Text>
-          </TouchableOpacity>
+          <Text style={styles.copyNote}>
+            Write the words on paper. Copying them to the clipboard exposes them to other apps.
+          </Text>
 
           <TouchableOpacity
             style={styles.checkRow}
@@ -119,12 +145,56 @@ export default function CreateWalletScreen({ navigation }: Props) {
             </Text>
           </TouchableOpacity>
 
+          {/* Optional BIP-39 passphrase */}
+          <TouchableOpacity
+            style={styles.checkRow}
+            onPress={() => setUsePassphrase(!usePassphrase)}>
+            <View style={[styles.checkbox, usePassphrase && styles.checkboxChecked]}>
+              {usePassphrase && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+            <Text style={styles.checkLabel}>
+              Protect with a passphrase (advanced)
+            </Text>
+          </TouchableOpacity>
+
+          {usePassphrase && (
+            <>
+              <Text style={styles.passphraseHint}>
+                The passphrase acts as a 13th word. You need both the phrase and the passphrase to restore this wallet — write it down separately.
+              </Text>
+              <ActivityTextInput
+                style={styles.input}
+                value={passphrase}
+                onChangeText={setPassphrase}
+                placeholder="Passphrase"
+                placeholderTextColor={Colors.textMuted}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+              />
+              <ActivityTextInput
+                style={styles.input}
+                value={passphraseConfirm}
+                onChangeText={setPassphraseConfirm}
+                placeholder="Confirm passphrase"
+                placeholderTextColor={Colors.textMuted}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+              />
+            </>
+          )}
+
           <TouchableOpacity
             style={[styles.btnPrimary, !confirmed && styles.btnDisabled]}
             onPress={proceed}
             disabled={!confirmed}>
             <Text style={styles.btnPrimaryText}>Continue →</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity style={styles.linkBtn} onPress={goToShares}>
+            <Text style={styles.linkText}>Back up as Shamir shares (SLIP-39) instead</Text>
+          </TouchableOpacity>
         </>
       )}
     </ScrollView>
@@ -150,14 +220,17 @@ const styles = StyleSheet.create({
   word:           { ...Typography.body, fontWeight: '600', fontFamily: 'monospace' },
   revealBtn:      { backgroundColor: Colors.bgCard, padding: Spacing.md, borderRadius: Radius.md, alignItems: 'center', marginBottom: Spacing.lg, borderWidth: 1, borderColor: Colors.primary },
   revealBtnText:  { color: Colors.primary, fontWeight: '600', fontSize: 15 },
-  copyBtn:        { padding: Spacing.sm, alignItems: 'center', marginBottom: Spacing.lg },
-  copyBtnText:    { color: Colors.textSecondary, fontSize: 14 },
+  copyNote:       { ...Typography.caption, textAlign: 'center', lineHeight: 18, marginBottom: Spacing.lg },
   checkRow:       { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm, marginBottom: Spacing.lg },
   checkbox:       { width: 22, height: 22, borderRadius: 6, borderWidth: 2, borderColor: Colors.border, justifyContent: 'center', alignItems: 'center' },
   checkboxChecked:{ backgroundColor: Colors.primary, borderColor: Colors.primary },
   checkmark:      { color: '#fff', fontWeight: '700', fontSize: 13 },
   checkLabel:     { ...Typography.body, flex: 1 },
+  passphraseHint: { ...Typography.caption, lineHeight: 18, marginBottom: Spacing.sm },
+  input:          { backgroundColor: Colors.bgInput, borderWidth: 1, borderColor: Colors.border, borderRadius: Radius.md, padding: Spacing.md, color: Colors.textPrimary, fontSize: 15, marginBottom: Spacing.sm },
   btnPrimary:     { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center' },
   btnDisabled:    { opacity: 0.4 },
   btnPrimaryText: { color: '#fff', fontSize: 16, fontWeight: '700' },
+  linkBtn:        { alignItems: 'center', padding: Spacing.md },
+  linkText:       { color: Colors.primary, fontWeight: '600' },
 });
\ No newline at end of file
@@ -0,0 +1,218 @@
+/**
+ * DiscoverAccountsScreen.tsx — Scan known derivation paths of an imported
+ * phrase for used accounts, then let the user pick which ones to add.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity,
+  ScrollView, Alert, ActivityIndicator,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { AuthStackParams } from '../../navigation/AppNavigator';
+import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
+import { CHAINS } from '../../constants/chains';
+import {
+  discoverAccounts, scanAddress, deriveAtPath, isValidPath, DiscoveredAccount,
+} from '../../core/discovery';
+import ActivityTextInput from '../../components/ActivityTextInput';
+
+type Props = {
+  navigation: NativeStackNavigationProp<AuthStackParams, 'DiscoverAccounts'>;
+  route: RouteProp<AuthStackParams, 'DiscoverAccounts'>;
+};
+
+const SCAN_STEP = 5;
+
+export default function DiscoverAccountsScreen({ navigation, route }: Props) {
+  const { mnemonic, passphrase = '', resetPin } = route.params;
+  const [found, setFound]           = useState<DiscoveredAccount[]>([]);
+  const [selected, setSelected]     = useState<Set<string>>(new Set());
+  const [scanStart, setScanStart]   = useState(0);
+  const [scanning, setScanning]     = useState(true);
+  const [customPath, setCustomPath] = useState('');
+  const cancelled = useRef(false);
+
+  useEffect(() => {
+    cancelled.current = false;
+    setScanning(true);
+    discoverAccounts(mnemonic, passphrase, {
+      start: scanStart,
+      count: SCAN_STEP,
+      onResult: (account) => {
+        if (cancelled.current) return;
+        setFound(f => (f.some(a => a.path === account.path) ? f : [...f, account]));
+        if (account.used) setSelected(s => new Set(s).add(account.path));
+      },
+    })
+      .then((all) => {
+        if (cancelled.current) return;
+        // Nothing used anywhere: default to the standard first account
+        if (scanStart === 0 && !all.some(a => a.used)) {
+          setSelected(s => (s.size ? s : new Set([all[0].path])));
+        }
+      })
+      .catch((e: any) => Alert.alert('Scan Failed', e.message))
+      .finally(() => !cancelled.current && setScanning(false));
+    return () => { cancelled.current = true; };
+  }, [mnemonic, passphrase, scanStart]);
+
+  const toggle = (path: string) => {
+    setSelected((s) => {
+      const next = new Set(s);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  const addCustomPath = async () => {
+    const path = customPath.trim();
+    if (!isValidPath(path)) {
+      Alert.alert('Invalid Path', "Use the form m/44'/60'/0'/0/0.");
+      return;
+    }
+    if (found.some(a => a.path === path)) {
+      setSelected(s => new Set(s).add(path));
+      setCustomPath('');
+      return;
+    }
+    try {
+      const address = deriveAtPath(mnemonic, passphrase, path);
+      const account = await scanAddress({ path, label: 'Custom path', address });
+      setFound(f => [...f, account]);
+      setSelected(s => new Set(s).add(path));
+      setCustomPath('');
+    } catch (e: any) {
+      Alert.alert('Invalid Path', e.message);
+    }
+  };
+
+  const proceed = () => {
+    const accounts = found
+      .filter(a => selected.has(a.path))
+      .map(a => ({ address: a.address, path: a.path }));
+    if (accounts.length === 0) {
+      Alert.alert('No accounts selected', 'Select at least one account to import.');
+      return;
+    }
+    navigation.navigate('SetPin', {
+      mnemonic, passphrase: passphrase || undefined, accounts, isNew: false, resetPin,
+    });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled">
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles.back}>
+        <Text style={styles.backText}>← Back</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.title}>Choose Accounts</Text>
+      <Text style={styles.subtitle}>
+        Other wallets derive accounts on different paths. Accounts with a balance or
+        transactions on any network are selected automatically.
+      </Text>
+
+      {found.map((account) => {
+        const checked = selected.has(account.path);
+        const active = Object.entries(account.activity).filter(
+          ([, a]) => a && (a.txCount > 0 || Number(a.balance) > 0),
+        );
+        return (
+          <TouchableOpacity
+            key={account.path}
+            style={[styles.row, checked && styles.rowSelected]}
+            onPress={() => toggle(account.path)}
+            activeOpacity={0.8}>
+            <View style={[styles.checkbox, checked && styles.checkboxChecked]}>
+              {checked && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+            <View style={styles.rowContent}>
+              <Text style={styles.label}>{account.label}</Text>
+              <Text style={styles.address}>
+                {account.address.slice(0, 10)}…{account.address.slice(-8)}
+              </Text>
+              <Text style={styles.path}>{account.path}</Text>
+              {active.length > 0
+                ? active.map(([k, a]) => (
+                    <Text key={k} style={styles.activity}>
+                      {CHAINS[k].name}: {parseFloat(a!.balance).toFixed(4)} {CHAINS[k].symbol} · {a!.txCount} tx
+                    </Text>
+                  ))
+                : <Text style={styles.unused}>No activity</Text>}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      {scanning ? (
+        <View style={styles.scanning}>
+          <ActivityIndicator color={Colors.primary} />
+          <Text style={styles.scanningText}>Scanning accounts…</Text>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.linkBtn} onPress={() => setScanStart(s => s + SCAN_STEP)}>
+          <Text style={styles.linkText}>Scan {SCAN_STEP} more per path</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Custom derivation path */}
+      <Text style={styles.sectionLabel}>Custom derivation path</Text>
+      <View style={styles.inputRow}>
+        <ActivityTextInput
+          style={[styles.input, { flex: 1 }]}
+          value={customPath}
+          onChangeText={setCustomPath}
+          placeholder="m/44'/60'/0'/0/0"
+          placeholderTextColor={Colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TouchableOpacity style={styles.addBtn} onPress={addCustomPath}>
+          <Text style={styles.addBtnText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.btn, selected.size === 0 && styles.btnDisabled]}
+        onPress={proceed}
+        disabled={selected.size === 0}>
+        <Text style={styles.btnText}>
+          Import {selected.size} Account{selected.size === 1 ? '' : 's'} →
+        </Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container:      { flex: 1, backgroundColor: Colors.bg },
+  content:        { padding: Spacing.lg, paddingBottom: 40 },
+  back:           { marginBottom: Spacing.lg },
+  backText:       { color: Colors.primary, fontSize: 16 },
+  title:          { ...Typography.h2, marginBottom: Spacing.sm },
+  subtitle:       { ...Typography.body, color: Colors.textSecondary, lineHeight: 22, marginBottom: Spacing.lg },
+  row:            { flexDirection: 'row', alignItems: 'flex-start', gap: Spacing.md, backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, marginBottom: 8, borderWidth: 1, borderColor: Colors.border },
+  rowSelected:    { borderColor: Colors.primary },
+  checkbox:       { width: 22, height: 22, borderRadius: 6, borderWidth: 2, borderColor: Colors.border, justifyContent: 'center', alignItems: 'center', marginTop: 2 },
+  checkboxChecked:{ backgroundColor: Colors.primary, borderColor: Colors.primary },
+  checkmark:      { color: '#fff', fontWeight: '700', fontSize: 13 },
+  rowContent:     { flex: 1 },
+  label:          { ...Typography.body, fontWeight: '600' },
+  address:        { ...Typography.caption, fontFamily: 'monospace' },
+  path:           { ...Typography.caption, color: Colors.textMuted, fontFamily: 'monospace' },
+  activity:       { ...Typography.caption, color: Colors.success, marginTop: 2 },
+  unused:         { ...Typography.caption, color: Colors.textMuted, marginTop: 2 },
+  scanning:       { flexDirection: 'row', justifyContent: 'center', alignItems: 'center', gap: Spacing.sm, padding: Spacing.md },
+  scanningText:   { ...Typography.caption },
+  linkBtn:        { alignItems: 'center', padding: Spacing.md },
+  linkText:       { color: Colors.primary, fontWeight: '600' },
+  sectionLabel:   { ...Typography.label, marginTop: Spacing.md, marginBottom: Spacing.sm },
+  inputRow:       { flexDirection: 'row', gap: Spacing.sm, marginBottom: Spacing.lg },
+  input:          { backgroundColor: Colors.bgInput, borderWidth: 1, borderColor: Colors.border, borderRadius: Radius.md, padding: Spacing.md, color: Colors.textPrimary, fontSize: 15, fontFamily: 'monospace' },
+  addBtn:         { justifyContent: 'center', paddingHorizontal: Spacing.md, borderRadius: Radius.md, borderWidth: 1, borderColor: Colors.primary },
+  addBtnText:     { color: Colors.primary, fontWeight: '700' },
+  btn:            { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center' },
+  btnDisabled:    { opacity: 0.4 },
+  btnText:        { color: '#fff', fontSize: 16, fontWeight: '700' },
+});
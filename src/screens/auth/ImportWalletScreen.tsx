@@ -1,38 +1,125 @@
 /**
  * ImportWalletScreen.tsx
- * Import via 12/24-word mnemonic OR private key.
+ * Import via 12/24-word mnemonic, SLIP-39 shares, private key, keystore v3
+ * JSON file, or a watch-only address.
  */
 import React, { useState } from 'react';
 import {
   View, Text, StyleSheet, TouchableOpacity,
-  TextInput, ScrollView, Alert, ActivityIndicator, Switch,
+  ScrollView, Alert, ActivityIndicator,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
 import { AuthStackParams } from '../../navigation/AppNavigator';
 import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
-import { importFromMnemonic, importFromPrivateKey } from '../../core/wallet';
+import DocumentPicker from 'react-native-document-picker';
+import { importFromMnemonic, importFromPrivateKey, importWatchAddress } from '../../core/wallet';
+import {
+  decryptKeystore, InvalidKeystorePasswordError, UnsupportedKeystoreError,
+} from '../../core/keystore';
+import ShamirShareCollector from '../../components/ShamirShareCollector';
+import { withAutoLockSuspended } from '../../core/autolock';
+import ActivityTextInput from '../../components/ActivityTextInput';
+
+type Props = {
+  navigation: NativeStackNavigationProp<AuthStackParams, 'ImportWallet'>;
+  route: RouteProp<AuthStackParams, 'ImportWallet'>;
+};
+
+type ImportMode = 'mnemonic' | 'shares' | 'privateKey' | 'keystore' | 'watch';
+
+const MODES: { key: ImportMode; label: string }[] = [
+  { key: 'mnemonic',   label: 'Recovery Phrase' },
+  { key: 'shares',     label: 'Shamir Shares' },
+  { key: 'privateKey', label: 'Private Key' },
+  { key: 'keystore',   label: 'Keystore File' },
+  { key: 'watch',      label: 'Watch Address' },
+];
 
-type Props = { navigation: NativeStackNavigationProp<AuthStackParams, 'ImportWallet'> };
+const SECRET_NAMES: Record<ImportMode, string> = {
+  mnemonic:   'recovery phrase',
+  shares:     'shares',
+  privateKey: 'private key',
+  keystore:   'keystore file and its password',
+  watch:      'address',
+};
 
-export default function ImportWalletScreen({ navigation }: Props) {
-  const [usePrivateKey, setUsePrivateKey] = useState(false);
-  const [input, setInput]                 = useState('');
-  const [loading, setLoading]             = useState(false);
+export default function ImportWalletScreen({ navigation, route }: Props) {
+  const resetPin = route.params?.resetPin;
+  const [mode, setMode]       = useState<ImportMode>('mnemonic');
+  const [input, setInput]     = useState('');
+  const [loading, setLoading] = useState(false);
+  const [passphrase, setPassphrase]         = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [keystorePassword, setKeystorePassword] = useState('');
+  const [progress, setProgress]                 = useState<number | null>(null);
+
+  const usePrivateKey = mode === 'privateKey';
+
+  const handleShares = (mnemonic: string) =>
+    navigation.navigate('DiscoverAccounts', {
+      mnemonic,
+      passphrase: passphrase || undefined,
+      resetPin,
+    });
+
+  const pickKeystoreFile = async () => {
+    try {
+      const file = await withAutoLockSuspended(() => DocumentPicker.pickSingle({ copyTo: 'cachesDirectory' }));
+      const res  = await fetch(file.fileCopyUri ?? file.uri);
+      setInput(await res.text());
+    } catch (e) {
+      if (!DocumentPicker.isCancel(e)) Alert.alert('Error', 'Could not read the selected file.');
+    }
+  };
+
+  const importKeystore = async (json: string) => {
+    setProgress(0);
+    try {
+      const { privateKey } = await decryptKeystore(json, keystorePassword, setProgress);
+      navigation.navigate('SetPin', { privateKey, isNew: false, resetPin });
+    } catch (e: any) {
+      if (e instanceof InvalidKeystorePasswordError) {
+        Alert.alert('Wrong Password', 'The password does not unlock this keystore file.');
+      } else if (e instanceof UnsupportedKeystoreError) {
+        Alert.alert('Unsupported File', e.message);
+      } else {
+        Alert.alert('Error', e.message || 'Could not import the keystore file.');
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
 
   const handleImport = async () => {
     const trimmed = input.trim();
     if (!trimmed) {
-      Alert.alert('Error', 'Please enter your recovery phrase or private key.');
+      Alert.alert('Error', mode === 'watch'
+        ? 'Please enter the address to watch.'
+        : mode === 'keystore'
+          ? 'Please choose a keystore file or paste its JSON.'
+          : 'Please enter your recovery phrase or private key.');
+      return;
+    }
+    if (mode === 'keystore') {
+      await importKeystore(trimmed);
       return;
     }
     setLoading(true);
     try {
-      if (usePrivateKey) {
+      if (mode === 'watch') {
+        const address = importWatchAddress(trimmed);
+        navigation.navigate('SetPin', { watchAddress: address, isNew: false, resetPin });
+      } else if (usePrivateKey) {
         await importFromPrivateKey(trimmed);
-        navigation.navigate('SetPin', { privateKey: trimmed, isNew: false });
+        navigation.navigate('SetPin', { privateKey: trimmed, isNew: false, resetPin });
       } else {
-        await importFromMnemonic(trimmed);
-        navigation.navigate('SetPin', { mnemonic: trimmed, isNew: false });
+        await importFromMnemonic(trimmed, passphrase);
+        navigation.navigate('DiscoverAccounts', {
+          mnemonic: trimmed,
+          passphrase: passphrase || undefined,
+          resetPin,
+        });
       }
     } catch (e: any) {
       Alert.alert('Invalid Input', e.message || 'Could not import wallet. Please check your input.');
@@ -50,61 +137,109 @@ export default function ImportWalletScreen({ navigation }: Props) {
 
       <Text style={styles.title}>Import Wallet</Text>
       <Text style={styles.subtitle}>
-        Enter your recovery phrase or private key to restore your wallet.
+        Enter your recovery phrase, Shamir shares, private key or keystore file to restore your wallet, or an address to track read-only.
       </Text>
 
-      {/* Toggle */}
+      {/* Mode selector */}
       <View style={styles.toggle}>
-        <Text style={[styles.toggleLabel, !usePrivateKey && styles.toggleActive]}>
-          Recovery Phrase
-        </Text>
-        <Switch
-          value={usePrivateKey}
-          onValueChange={setUsePrivateKey}
-          trackColor={{ false: Colors.primary, true: Colors.bgCard }}
-          thumbColor={Colors.textPrimary}
-        />
-        <Text style={[styles.toggleLabel, usePrivateKey && styles.toggleActive]}>
-          Private Key
-        </Text>
+        {MODES.map((m) => (
+          <TouchableOpacity key={m.key} onPress={() => { setMode(m.key); setInput(''); }}>
+            <Text style={[styles.toggleLabel, mode === m.key && styles.toggleActive]}>
+              {m.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
       </View>
 
       {/* Security warning */}
       <View style={styles.warning}>
         <Text style={styles.warningText}>
-          🔒 Never share your {usePrivateKey ? 'private key' : 'recovery phrase'} with anyone.
-          Enter it only in trusted apps.
+          {mode === 'watch'
+            ? '👁 Watch-only wallets show balances and activity but cannot send, swap or sign. No keys are stored.'
+            : `🔒 Never share your ${SECRET_NAMES[mode]} with anyone. Enter secrets only in trusted apps.`}
         </Text>
       </View>
 
+      {mode === 'keystore' && (
+        <TouchableOpacity style={styles.fileBtn} onPress={pickKeystoreFile}>
+          <Text style={styles.fileBtnText}>📄 Choose File</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Input */}
-      <TextInput
+      {mode !== 'shares' && <ActivityTextInput
         style={styles.input}
         value={input}
         onChangeText={setInput}
         placeholder={
-          usePrivateKey
-            ? 'Enter private key (0x...)'
-            : 'Enter 12 or 24 words separated by spaces'
+          mode === 'watch'
+            ? 'Enter address (0x...)'
+            : usePrivateKey
+              ? 'Enter private key (0x...)'
+              : mode === 'keystore'
+                ? 'Or paste the keystore JSON'
+                : 'Enter 12 or 24 words separated by spaces'
         }
         placeholderTextColor={Colors.textMuted}
-        multiline={!usePrivateKey}
-        numberOfLines={usePrivateKey ? 1 : 5}
+        multiline={mode === 'mnemonic' || mode === 'keystore'}
+        numberOfLines={mode === 'mnemonic' || mode === 'keystore' ? 5 : 1}
         autoCapitalize="none"
         autoCorrect={false}
         secureTextEntry={usePrivateKey}
         textAlignVertical="top"
-      />
-
-      <TouchableOpacity
-        style={[styles.btn, loading && styles.btnDisabled]}
-        onPress={handleImport}
-        disabled={loading}>
-        {loading
-          ? <ActivityIndicator color="#fff" />
-          : <Text style={styles.btnText}>Import Wallet</Text>
-        }
-      </TouchableOpacity>
+      />}
+
+      {mode === 'keystore' && (
+        <ActivityTextInput
+          style={[styles.input, styles.inputSingle]}
+          value={keystorePassword}
+          onChangeText={setKeystorePassword}
+          placeholder="Keystore password"
+          placeholderTextColor={Colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+          secureTextEntry
+        />
+      )}
+
+      {/* Optional BIP-39 passphrase */}
+      {(mode === 'mnemonic' || mode === 'shares') && (showPassphrase ? (
+        <>
+          <ActivityTextInput
+            style={[styles.input, styles.inputSingle]}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder="Passphrase (25th word)"
+            placeholderTextColor={Colors.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+          <Text style={styles.passphraseHint}>
+            Only if this phrase was set up with a passphrase (e.g. on Ledger or Trezor). A different passphrase opens a different wallet.
+          </Text>
+        </>
+      ) : (
+        <TouchableOpacity onPress={() => setShowPassphrase(true)} style={styles.linkBtn}>
+          <Text style={styles.linkText}>+ Add passphrase (advanced)</Text>
+        </TouchableOpacity>
+      ))}
+
+      {mode === 'shares' ? (
+        <ShamirShareCollector onRecovered={handleShares} />
+      ) : (
+        <TouchableOpacity
+          style={[styles.btn, (loading || progress !== null) && styles.btnDisabled]}
+          onPress={handleImport}
+          disabled={loading || progress !== null}>
+          {progress !== null
+            ? <Text style={styles.btnText}>Decrypting… {progress}%</Text>
+            : loading
+              ? <ActivityIndicator color="#fff" />
+              : <Text style={styles.btnText}>{mode === 'watch' ? 'Watch Address' : 'Import Wallet'}</Text>
+          }
+        </TouchableOpacity>
+      )}
 
       <Text style={styles.note}>
         Your keys are stored locally on this device only, encrypted with your PIN.
@@ -121,12 +256,18 @@ const styles = StyleSheet.create({
   backText:    { color: Colors.primary, fontSize: 16 },
   title:       { ...Typography.h2, marginBottom: Spacing.sm },
   subtitle:    { ...Typography.body, color: Colors.textSecondary, lineHeight: 22, marginBottom: Spacing.lg },
-  toggle:      { flexDirection: 'row', alignItems: 'center', gap: Spacing.md, justifyContent: 'center', marginBottom: Spacing.lg, backgroundColor: Colors.bgCard, padding: Spacing.md, borderRadius: Radius.md },
+  toggle:      { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: Spacing.md, justifyContent: 'center', marginBottom: Spacing.lg, backgroundColor: Colors.bgCard, padding: Spacing.md, borderRadius: Radius.md },
   toggleLabel: { ...Typography.body, color: Colors.textSecondary },
   toggleActive:{ color: Colors.primary, fontWeight: '700' },
   warning:     { backgroundColor: '#1a1a2e', borderWidth: 1, borderColor: Colors.primary, borderRadius: Radius.md, padding: Spacing.md, marginBottom: Spacing.lg },
   warningText: { ...Typography.caption, color: Colors.textSecondary, lineHeight: 18 },
   input:       { backgroundColor: Colors.bgInput, borderWidth: 1, borderColor: Colors.border, borderRadius: Radius.md, padding: Spacing.md, color: Colors.textPrimary, fontSize: 15, minHeight: 100, marginBottom: Spacing.lg, fontFamily: 'monospace' },
+  inputSingle: { minHeight: 0, marginBottom: Spacing.sm },
+  fileBtn:     { alignItems: 'center', padding: Spacing.md, borderRadius: Radius.lg, borderWidth: 1, borderColor: Colors.primary, marginBottom: Spacing.sm },
+  fileBtnText: { color: Colors.primary, fontWeight: '700', fontSize: 15 },
+  passphraseHint: { ...Typography.caption, lineHeight: 18, marginBottom: Spacing.lg },
+  linkBtn:     { alignItems: 'center', marginBottom: Spacing.lg },
+  linkText:    { color: Colors.primary, fontWeight: '600' },
   btn:         { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center', marginBottom: Spacing.lg },
   btnDisabled: { opacity: 0.5 },
   btnText:     { color: '#fff', fontSize: 16, fontWeight: '700' },
@@ -0,0 +1,47 @@
+/**
+ * ShamirSetupScreen.tsx — Split a freshly generated phrase into SLIP-39
+ * shares instead of writing the 12 words down.
+ */
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { AuthStackParams } from '../../navigation/AppNavigator';
+import { Colors, Spacing, Typography } from '../../constants/theme';
+import ShamirSharesSetup from '../../components/ShamirSharesSetup';
+
+type Props = {
+  navigation: NativeStackNavigationProp<AuthStackParams, 'ShamirSetup'>;
+  route: RouteProp<AuthStackParams, 'ShamirSetup'>;
+};
+
+export default function ShamirSetupScreen({ navigation, route }: Props) {
+  const { mnemonic, passphrase } = route.params;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles.back}>
+        <Text style={styles.backText}>← Back</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Shamir Backup</Text>
+      <Text style={styles.subtitle}>
+        Split your wallet into shares. Any qualifying set of shares restores it; fewer reveal nothing.
+        {passphrase ? ' Your passphrase is not part of the shares — keep it separately.' : ''}
+      </Text>
+
+      <ShamirSharesSetup
+        mnemonic={mnemonic}
+        onDone={() => navigation.navigate('SetPin', { mnemonic, passphrase, isNew: true, backupVerified: true })}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.bg },
+  content:   { padding: Spacing.lg, paddingBottom: 40 },
+  back:      { marginBottom: Spacing.lg },
+  backText:  { color: Colors.primary, fontSize: 16 },
+  title:     { ...Typography.h2, marginBottom: Spacing.sm },
+  subtitle:  { ...Typography.body, color: Colors.textSecondary, lineHeight: 22, marginBottom: Spacing.lg },
+});
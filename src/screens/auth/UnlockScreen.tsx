@@ -1,7 +1,7 @@
 /**
  * UnlockScreen.tsx — PIN entry to decrypt wallet on app resume
  */
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View, Text, StyleSheet, TouchableOpacity,
   Alert, Vibration, ActivityIndicator,
@@ -9,58 +9,105 @@ import {
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { AuthStackParams } from '../../navigation/AppNavigator';
 import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
-import { loadMnemonic } from '../../core/wallet';
+import {
+  attemptPin, attemptBiometricPin, getLockoutState, failureMessage, formatLockout,
+} from '../../core/lockout';
+import {
+  upgradeWalletMeta, openSigningSession, selectedAccountRef, isReadOnly,
+} from '../../core/wallet';
+import {
+  getBiometricUnlockLabel, loadBiometricPin, BiometricInvalidatedError, STALE_BIOMETRIC_MESSAGE,
+} from '../../core/biometrics';
 import { useWalletStore } from '../../store/walletStore';
+import PinPad from '../../components/PinPad';
 
 type Props = { navigation: NativeStackNavigationProp<AuthStackParams, 'Unlock'> };
 
-const PIN_LENGTH = 6;
-const PAD = ['1','2','3','4','5','6','7','8','9','','0','⌫'];
-
 export default function UnlockScreen({ navigation }: Props) {
   const [pin, setPin]       = useState('');
   const [loading, setLoading] = useState(false);
-  const [attempts, setAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [, setTick] = useState(0);
+  const [biometryLabel, setBiometryLabel] = useState<string | null>(null);
   const setUnlocked = useWalletStore(s => s.setUnlocked);
+  const setMeta     = useWalletStore(s => s.setMeta);
+  const reset       = useWalletStore(s => s.reset);
 
-  const handleKey = async (key: string) => {
-    if (loading) return;
-    if (key === '⌫') { setPin(p => p.slice(0, -1)); return; }
-    if (pin.length >= PIN_LENGTH) return;
-    const next = pin + key;
-    setPin(next);
-    if (next.length === PIN_LENGTH) {
-      await tryUnlock(next);
+  const isLocked = lockedUntil > Date.now();
+
+  // Restore a lockout that survived an app restart, then offer biometrics
+  useEffect(() => {
+    (async () => {
+      const state = await getLockoutState().catch(() => null);
+      if (state) setLockedUntil(state.lockedUntil);
+      const label = await getBiometricUnlockLabel().catch(() => null);
+      setBiometryLabel(label);
+      if (label && !(state && state.lockedUntil > Date.now())) await tryBiometric();
+    })();
+  }, []);
+
+  // Re-render once a second so the countdown stays current
+  useEffect(() => {
+    if (!isLocked) return;
+    const id = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(id);
+  }, [isLocked]);
+
+  const tryBiometric = async () => {
+    try {
+      const storedPin = await loadBiometricPin('Unlock CryptoVault');
+      if (storedPin) await tryUnlock(storedPin, true);
+    } catch (e: any) {
+      setBiometryLabel(null);
+      if (e instanceof BiometricInvalidatedError) Alert.alert('Biometric Unlock', e.message);
     }
   };
 
-  const tryUnlock = async (enteredPin: string) => {
+  const tryUnlock = async (enteredPin: string, fromBiometrics = false) => {
     setLoading(true);
     try {
-      await loadMnemonic(enteredPin); // throws if wrong pin
-      setUnlocked(true);
-      navigation.getParent()?.navigate('Main');
-    } catch {
-      Vibration.vibrate([0, 80, 80, 80]);
-      const newAttempts = attempts + 1;
-      setAttempts(newAttempts);
-      if (newAttempts >= 5) {
-        Alert.alert(
-          'Too many attempts',
-          'Use your recovery phrase to reset access.',
-          [{ text: 'OK' }],
-        );
-      } else {
-        Alert.alert('Wrong PIN', `${5 - newAttempts} attempts remaining`);
+      const result = fromBiometrics ? await attemptBiometricPin(enteredPin) : await attemptPin(enteredPin);
+      switch (result.status) {
+        case 'stale':
+          setBiometryLabel(null);
+          Alert.alert('Biometric Unlock', STALE_BIOMETRIC_MESSAGE);
+          return;
+        case 'ok': {
+          // Best effort: an upgrade failure must not block unlocking
+          await upgradeWalletMeta(enteredPin).then(m => m && setMeta(m)).catch(() => {});
+          const { meta } = useWalletStore.getState();
+          if (meta && !isReadOnly(meta)) {
+            // Not awaited: deriving the key must not delay the home screen
+            openSigningSession(enteredPin, selectedAccountRef(meta)).catch(() => {});
+          }
+          setUnlocked(true);
+          navigation.getParent()?.navigate('Main');
+          return;
+        }
+        case 'locked':
+          setLockedUntil(result.lockedUntil);
+          return;
+        case 'wiped':
+          reset();
+          Alert.alert(
+            'Wallet erased',
+            'Too many failed attempts. Restore your wallet with its recovery phrase.',
+          );
+          navigation.reset({ index: 0, routes: [{ name: 'Onboarding' }] });
+          return;
+        case 'wrong':
+          Vibration.vibrate([0, 80, 80, 80]);
+          setLockedUntil(result.lockedUntil);
+          Alert.alert('Wrong PIN', failureMessage(result));
       }
-      setPin('');
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not read wallet from secure storage.');
     } finally {
+      setPin('');
       setLoading(false);
     }
   };
 
-  const dots = Array.from({ length: PIN_LENGTH }, (_, i) => i);
-
   return (
     <View style={styles.container}>
       <View style={styles.logoArea}>
@@ -71,30 +118,31 @@ export default function UnlockScreen({ navigation }: Props) {
       </View>
 
       <Text style={styles.title}>Enter PIN</Text>
-
-      <View style={styles.dots}>
-        {dots.map(i => (
-          <View key={i} style={[styles.dot, i < pin.length && styles.dotFilled]} />
-        ))}
-      </View>
+      {isLocked && (
+        <Text style={styles.lockedText}>
+          Too many attempts. Try again in {formatLockout(lockedUntil)}.
+        </Text>
+      )}
 
       {loading && <ActivityIndicator color={Colors.primary} style={{ marginBottom: Spacing.lg }} />}
 
-      <View style={styles.pad}>
-        {PAD.map((key, i) => (
-          <TouchableOpacity
-            key={i}
-            style={[styles.key, key === '' && styles.keyEmpty]}
-            onPress={() => key && handleKey(key)}
-            disabled={!key || loading}
-            activeOpacity={0.7}>
-            <Text style={[styles.keyText, key === '⌫' && styles.keyDelete]}>{key}</Text>
-          </TouchableOpacity>
-        ))}
-      </View>
+      <PinPad value={pin} onChange={setPin} onComplete={(next) => tryUnlock(next)} disabled={loading || isLocked} />
+
+      {biometryLabel && !isLocked && (
+        <TouchableOpacity onPress={tryBiometric} disabled={loading} style={styles.biometricBtn}>
+          <Text style={styles.biometricText}>Use {biometryLabel}</Text>
+        </TouchableOpacity>
+      )}
 
       <TouchableOpacity
-        onPress={() => navigation.navigate('ImportWallet')}
+        onPress={() => Alert.alert(
+          'Restore with recovery phrase',
+          'Wallets on this device are encrypted with your PIN. Setting a new PIN removes every wallet here; you can restore each one from its recovery phrase or private key.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Continue', style: 'destructive', onPress: () => navigation.navigate('ImportWallet', { resetPin: true }) },
+          ],
+        )}
         style={styles.resetLink}>
         <Text style={styles.resetText}>Forgot PIN? Restore with recovery phrase</Text>
       </TouchableOpacity>
@@ -108,14 +156,9 @@ const styles = StyleSheet.create({
   logoCircle: { width: 72, height: 72, borderRadius: 36, backgroundColor: Colors.bgCard, justifyContent: 'center', alignItems: 'center', marginBottom: Spacing.sm },
   appName:    { ...Typography.h3, color: Colors.textSecondary },
   title:      { ...Typography.h2, marginBottom: Spacing.xl },
-  dots:       { flexDirection: 'row', gap: Spacing.md, marginBottom: Spacing.xl },
-  dot:        { width: 16, height: 16, borderRadius: 8, borderWidth: 2, borderColor: Colors.border },
-  dotFilled:  { backgroundColor: Colors.primary, borderColor: Colors.primary },
-  pad:        { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', gap: 12, marginBottom: Spacing.xl, width: '80%' },
-  key:        { width: 80, height: 80, borderRadius: 40, backgroundColor: Colors.bgCard, justifyContent: 'center', alignItems: 'center' },
-  keyEmpty:   { backgroundColor: 'transparent' },
-  keyText:    { ...Typography.h2 },
-  keyDelete:  { fontSize: 22 },
+  lockedText: { ...Typography.caption, color: Colors.danger, marginTop: -Spacing.md, marginBottom: Spacing.lg, textAlign: 'center' },
+  biometricBtn:  { paddingVertical: Spacing.sm, paddingHorizontal: Spacing.lg, borderRadius: Radius.lg, borderWidth: 1, borderColor: Colors.primary },
+  biometricText: { color: Colors.primary, fontWeight: '600', fontSize: 15 },
   resetLink:  { marginTop: Spacing.md },
   resetText:  { color: Colors.primary, fontSize: 14, textDecorationLine: 'underline' },
 });
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * VerifyBackupScreen.tsx — Quiz on the freshly generated phrase before the
+ * wallet is saved. Skipping leaves the wallet marked as not backed up.
+ */
+import React, { useMemo } from 'react';
+import { Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { AuthStackParams } from '../../navigation/AppNavigator';
+import { Colors, Spacing, Typography } from '../../constants/theme';
+import BackupQuiz from '../../components/BackupQuiz';
+
+type Props = {
+  navigation: NativeStackNavigationProp<AuthStackParams, 'VerifyBackup'>;
+  route: RouteProp<AuthStackParams, 'VerifyBackup'>;
+};
+
+export default function VerifyBackupScreen({ navigation, route }: Props) {
+  const { mnemonic, passphrase } = route.params;
+  const words = useMemo(() => mnemonic.split(' '), [mnemonic]);
+
+  const finish = (backupVerified: boolean) =>
+    navigation.navigate('SetPin', { mnemonic, passphrase, isNew: true, backupVerified });
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles.back}>
+        <Text style={styles.backText}>← Back</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Verify Backup</Text>
+      <Text style={styles.subtitle}>
+        Pick the correct word for each position from your written recovery phrase.
+      </Text>
+
+      <BackupQuiz words={words} onPass={() => finish(true)} onSkip={() => finish(false)} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.bg },
+  content:   { padding: Spacing.lg, paddingBottom: 40 },
+  back:      { marginBottom: Spacing.lg },
+  backText:  { color: Colors.primary, fontSize: 16 },
+  title:     { ...Typography.h2, marginBottom: Spacing.sm },
+  subtitle:  { ...Typography.body, color: Colors.textSecondary, lineHeight: 22, marginBottom: Spacing.lg },
+});
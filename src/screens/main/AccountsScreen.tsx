@@ -0,0 +1,199 @@
+/**
+ * AccountsScreen.tsx — HD accounts of the current wallet: switch, add, rename, hide
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, StyleSheet, ScrollView, TouchableOpacity,
+  Alert, ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
+import { useWalletStore } from '../../store/walletStore';
+import { WalletAccount } from '../../core/wallet';
+import { RootStackParams } from '../../navigation/AppNavigator';
+import ActivityTextInput from '../../components/ActivityTextInput';
+
+type Nav = NativeStackNavigationProp<RootStackParams, 'Accounts'>;
+
+export default function AccountsScreen() {
+  const navigation = useNavigation<Nav>();
+  const {
+    meta, addAccount, renameAccount, setAccountHidden, selectAccount,
+  } = useWalletStore();
+  const [showHidden, setShowHidden] = useState(false);
+  const [editing, setEditing]       = useState<number | null>(null);
+  const [draftName, setDraftName]   = useState('');
+  const [busy, setBusy]             = useState(false);
+
+  const accounts    = meta?.accounts ?? [];
+  const hiddenCount = accounts.filter(a => a.hidden).length;
+  const visible     = showHidden ? accounts : accounts.filter(a => !a.hidden);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSelect = (account: WalletAccount) => {
+    if (account.index === meta?.selectedAccount) return;
+    run(() => selectAccount(account.index));
+  };
+
+  const startRename = (account: WalletAccount) => {
+    setEditing(account.index);
+    setDraftName(account.name);
+  };
+
+  const commitRename = () => {
+    if (editing === null) return;
+    const index = editing;
+    setEditing(null);
+    run(() => renameAccount(index, draftName));
+  };
+
+  const handleAdd = () => {
+    if (!meta?.xpub) {
+      Alert.alert(
+        'Unlock required',
+        'Lock and unlock the wallet once with your PIN to enable additional accounts.',
+      );
+      return;
+    }
+    run(() => addAccount());
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.headerRow}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.closeText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Accounts</Text>
+        <View style={{ width: 24 }}>
+          {busy && <ActivityIndicator color={Colors.primary} size="small" />}
+        </View>
+      </View>
+
+      {visible.map((account) => {
+        const selected = account.index === meta?.selectedAccount;
+        return (
+          <TouchableOpacity
+            key={account.index}
+            style={[styles.row, selected && styles.rowSelected]}
+            onPress={() => handleSelect(account)}
+            disabled={busy}
+            activeOpacity={0.8}>
+            <View style={styles.avatar}>
+              <Text style={styles.avatarText}>{account.index + 1}</Text>
+            </View>
+            <View style={styles.rowContent}>
+              {editing === account.index ? (
+                <ActivityTextInput
+                  style={styles.nameInput}
+                  value={draftName}
+                  onChangeText={setDraftName}
+                  onEndEditing={commitRename}
+                  autoFocus
+                  maxLength={32}
+                  returnKeyType="done"
+                />
+              ) : (
+                <Text style={[styles.name, account.hidden && styles.nameHidden]}>
+                  {account.name}{account.hidden ? ' (hidden)' : ''}
+                </Text>
+              )}
+              <Text style={styles.address}>
+                {account.address.slice(0, 8)}…{account.address.slice(-6)}
+              </Text>
+              {account.path && <Text style={styles.path}>{account.path}</Text>}
+            </View>
+            {selected
+              ? <Text style={styles.checkmark}>✓</Text>
+              : (
+                <TouchableOpacity
+                  onPress={() => run(() => setAccountHidden(account.index, !account.hidden))}
+                  style={styles.smallBtn}>
+                  <Text style={styles.smallBtnText}>{account.hidden ? 'Unhide' : 'Hide'}</Text>
+                </TouchableOpacity>
+              )}
+            <TouchableOpacity onPress={() => startRename(account)} style={styles.smallBtn}>
+              <Text style={styles.smallBtnText}>✎</Text>
+            </TouchableOpacity>
+            {meta?.type !== 'watchOnly' && (
+              <TouchableOpacity
+                onPress={() => navigation.navigate('ExportKeystore', { index: account.index })}
+                style={styles.smallBtn}>
+                <Text style={styles.smallBtnText}>⤓</Text>
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      {hiddenCount > 0 && (
+        <TouchableOpacity style={styles.linkBtn} onPress={() => setShowHidden(!showHidden)}>
+          <Text style={styles.linkText}>
+            {showHidden ? 'Hide hidden accounts' : `Show hidden accounts (${hiddenCount})`}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {meta?.type === 'hd' ? (
+        <>
+          <TouchableOpacity style={[styles.addBtn, busy && styles.btnDisabled]} onPress={handleAdd} disabled={busy}>
+            <Text style={styles.addBtnText}>+ Add Account</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.linkBtn} onPress={() => navigation.navigate('Passphrase')}>
+            <Text style={styles.linkText}>
+              🔐 Passphrase: {meta.hasPassphrase ? 'on' : 'off'} · switch to a hidden wallet
+            </Text>
+          </TouchableOpacity>
+
+          <Text style={styles.note}>
+            All accounts are derived from the same recovery phrase{meta.hasPassphrase ? ' and passphrase' : ''}. Restoring it restores every account.
+          </Text>
+        </>
+      ) : (
+        <Text style={styles.note}>
+          This wallet holds a single address. Create or import an HD wallet to use multiple accounts.
+        </Text>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container:    { flex: 1, backgroundColor: Colors.bg },
+  content:      { padding: Spacing.lg, paddingBottom: 40 },
+  headerRow:    { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: Spacing.xl },
+  closeText:    { color: Colors.primary, fontSize: 20 },
+  title:        { ...Typography.h3 },
+  row:          { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm, backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, marginBottom: 8, borderWidth: 1, borderColor: Colors.border },
+  rowSelected:  { borderColor: Colors.primary },
+  avatar:       { width: 36, height: 36, borderRadius: 18, backgroundColor: Colors.primary + '33', justifyContent: 'center', alignItems: 'center' },
+  avatarText:   { color: Colors.primary, fontWeight: '700' },
+  rowContent:   { flex: 1 },
+  name:         { ...Typography.body, fontWeight: '600' },
+  nameHidden:   { color: Colors.textMuted },
+  nameInput:    { ...Typography.body, fontWeight: '600', borderBottomWidth: 1, borderBottomColor: Colors.primary, paddingVertical: 2 },
+  address:      { ...Typography.caption, fontFamily: 'monospace' },
+  path:         { ...Typography.caption, color: Colors.textMuted, fontFamily: 'monospace' },
+  checkmark:    { color: Colors.primary, fontSize: 18, fontWeight: '700', paddingHorizontal: 8 },
+  smallBtn:     { paddingHorizontal: 8, paddingVertical: 4 },
+  smallBtnText: { color: Colors.textSecondary, fontSize: 13 },
+  linkBtn:      { alignItems: 'center', padding: Spacing.sm },
+  linkText:     { color: Colors.textSecondary, fontSize: 13 },
+  addBtn:       { alignItems: 'center', padding: Spacing.md, marginTop: Spacing.sm, borderRadius: Radius.lg, borderWidth: 1, borderColor: Colors.primary },
+  addBtnText:   { color: Colors.primary, fontWeight: '700', fontSize: 15 },
+  btnDisabled:  { opacity: 0.5 },
+  note:         { ...Typography.caption, color: Colors.textMuted, textAlign: 'center', marginTop: Spacing.lg, lineHeight: 18 },
+});
@@ -0,0 +1,79 @@
+/**
+ * BiometricSetupScreen.tsx — Confirm the PIN, then turn on biometric unlock
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity,
+  Alert, ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Colors, Spacing, Typography } from '../../constants/theme';
+import { useWalletStore } from '../../store/walletStore';
+import { enableBiometrics } from '../../core/biometrics';
+import { attemptPin, failureMessage, formatLockout } from '../../core/lockout';
+import { RootStackParams } from '../../navigation/AppNavigator';
+import PinPad from '../../components/PinPad';
+
+type Nav = NativeStackNavigationProp<RootStackParams, 'BiometricSetup'>;
+
+export default function BiometricSetupScreen() {
+  const navigation = useNavigation<Nav>();
+  const reset = useWalletStore(s => s.reset);
+
+  const [pin, setPin]         = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const checkPin = async (enteredPin: string) => {
+    setLoading(true);
+    try {
+      const result = await attemptPin(enteredPin);
+      switch (result.status) {
+        case 'ok':
+          if (await enableBiometrics(enteredPin)) {
+            navigation.goBack();
+            return;
+          }
+          Alert.alert('Not Enabled', 'Biometric confirmation failed. Try again.');
+          break;
+        case 'locked':
+          Alert.alert('Locked', `Too many attempts. Try again in ${formatLockout(result.lockedUntil)}.`);
+          break;
+        case 'wiped':
+          reset();
+          Alert.alert('Wallet erased', 'Too many failed attempts. Restore your wallet with its recovery phrase.');
+          navigation.reset({ index: 0, routes: [{ name: 'Auth' }] });
+          return;
+        case 'wrong':
+          Alert.alert('Wrong PIN', failureMessage(result));
+          break;
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not enable biometric unlock.');
+    } finally {
+      setLoading(false);
+    }
+    setPin('');
+  };
+
+  return (
+    <View style={styles.pinContainer}>
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles.back}>
+        <Text style={styles.backText}>✕</Text>
+      </TouchableOpacity>
+      <Text style={styles.pinTitle}>Biometric Unlock</Text>
+      <Text style={styles.pinSubtitle}>Enter your PIN to enable biometric unlock</Text>
+      {loading
+        ? <ActivityIndicator color={Colors.primary} size="large" style={{ marginVertical: Spacing.xl }} />
+        : <PinPad value={pin} onChange={setPin} onComplete={checkPin} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pinContainer: { flex: 1, backgroundColor: Colors.bg, paddingHorizontal: Spacing.lg, alignItems: 'center', justifyContent: 'center' },
+  back:         { position: 'absolute', top: 56, left: Spacing.lg },
+  backText:     { color: Colors.primary, fontSize: 20 },
+  pinTitle:     { ...Typography.h2, marginBottom: Spacing.sm },
+  pinSubtitle:  { ...Typography.caption, color: Colors.textSecondary, textAlign: 'center', marginBottom: Spacing.xl },
+});
@@ -0,0 +1,142 @@
+/**
+ * ChangePinScreen.tsx — Verify the current PIN, choose and confirm a new one,
+ * then re-encrypt every stored secret under it.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity,
+  Alert, ActivityIndicator, Vibration,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Colors, Spacing, Typography } from '../../constants/theme';
+import { useWalletStore } from '../../store/walletStore';
+import { changePin } from '../../core/wallet';
+import { rewrapBiometricPin } from '../../core/biometrics';
+import { attemptPin, failureMessage, formatLockout } from '../../core/lockout';
+import { RootStackParams } from '../../navigation/AppNavigator';
+import PinPad from '../../components/PinPad';
+
+type Nav = NativeStackNavigationProp<RootStackParams, 'ChangePin'>;
+
+type Step = 'current' | 'enter' | 'confirm';
+
+const COPY: Record<Step, { title: string; subtitle: string }> = {
+  current: { title: 'Current PIN', subtitle: 'Enter the PIN you use today' },
+  enter:   { title: 'New PIN',     subtitle: 'Choose a new 6-digit PIN' },
+  confirm: { title: 'Confirm PIN', subtitle: 'Re-enter your new PIN to confirm' },
+};
+
+export default function ChangePinScreen() {
+  const navigation = useNavigation<Nav>();
+  const reset = useWalletStore(s => s.reset);
+
+  const [step, setStep]       = useState<Step>('current');
+  const [oldPin, setOldPin]   = useState('');
+  const [newPin, setNewPin]   = useState('');
+  const [value, setValue]     = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleComplete = async (entered: string) => {
+    if (step === 'current') {
+      await checkCurrentPin(entered);
+    } else if (step === 'enter') {
+      if (entered === oldPin) {
+        Alert.alert('Same PIN', 'Choose a PIN different from your current one.');
+        setValue('');
+        return;
+      }
+      setNewPin(entered);
+      setTimeout(() => { setValue(''); setStep('confirm'); }, 300);
+    } else if (entered !== newPin) {
+      Vibration.vibrate(400);
+      Alert.alert('PIN Mismatch', 'PINs do not match. Please try again.');
+      setNewPin('');
+      setValue('');
+      setStep('enter');
+    } else {
+      await save(entered);
+    }
+  };
+
+  const checkCurrentPin = async (entered: string) => {
+    setLoading(true);
+    try {
+      const result = await attemptPin(entered);
+      switch (result.status) {
+        case 'ok':
+          setOldPin(entered);
+          setStep('enter');
+          break;
+        case 'locked':
+          Alert.alert('Locked', `Too many attempts. Try again in ${formatLockout(result.lockedUntil)}.`);
+          break;
+        case 'wiped':
+          reset();
+          Alert.alert('Wallet erased', 'Too many failed attempts. Restore your wallet with its recovery phrase.');
+          navigation.reset({ index: 0, routes: [{ name: 'Auth' }] });
+          return;
+        case 'wrong':
+          Vibration.vibrate(400);
+          Alert.alert('Wrong PIN', failureMessage(result));
+          break;
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not verify PIN.');
+    } finally {
+      setLoading(false);
+    }
+    setValue('');
+  };
+
+  const save = async (finalPin: string) => {
+    setLoading(true);
+    try {
+      await changePin(oldPin, finalPin);
+    } catch (e: any) {
+      Alert.alert('PIN Not Changed', e.message || 'Your current PIN still works.');
+      setNewPin('');
+      setValue('');
+      setStep('enter');
+      setLoading(false);
+      return;
+    }
+    const keptBiometrics = await rewrapBiometricPin(finalPin).catch(() => false);
+    setLoading(false);
+    Alert.alert(
+      'PIN Changed',
+      keptBiometrics
+        ? 'Use your new PIN from now on.'
+        : 'Use your new PIN from now on. Biometric unlock was turned off; enable it again in Settings.',
+      [{ text: 'Done', onPress: () => navigation.goBack() }],
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles.back} disabled={loading}>
+        <Text style={styles.backText}>✕</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.title}>{COPY[step].title}</Text>
+      <Text style={styles.subtitle}>{COPY[step].subtitle}</Text>
+
+      {loading && <ActivityIndicator color={Colors.primary} style={{ marginBottom: Spacing.lg }} />}
+
+      <PinPad value={value} onChange={setValue} onComplete={handleComplete} disabled={loading} />
+
+      <Text style={styles.note}>
+        Every wallet on this device is re-encrypted with the new PIN.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.bg, paddingHorizontal: Spacing.lg, paddingTop: Spacing.xxl },
+  back:      { marginBottom: Spacing.xl },
+  backText:  { color: Colors.primary, fontSize: 20 },
+  title:     { ...Typography.h2, textAlign: 'center', marginBottom: Spacing.sm },
+  subtitle:  { ...Typography.body, color: Colors.textSecondary, textAlign: 'center', marginBottom: Spacing.xl },
+  note:      { ...Typography.caption, color: Colors.textMuted, textAlign: 'center', lineHeight: 18, paddingHorizontal: Spacing.md },
+});
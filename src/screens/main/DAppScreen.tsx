@@ -4,12 +4,15 @@
  */
 import React, { useState, useRef } from 'react';
 import {
-  View, Text, StyleSheet, TouchableOpacity, TextInput,
+  View, Text, StyleSheet, TouchableOpacity,
   FlatList, Alert, ActivityIndicator,
 } from 'react-native';
 import { WebView } from 'react-native-webview';
 import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
 import { useWalletStore } from '../../store/walletStore';
+import { isReadOnly } from '../../core/wallet';
+import { READ_ONLY_MESSAGE } from '../../components/ReadOnlyNotice';
+import ActivityTextInput from '../../components/ActivityTextInput';
 
 interface DApp { name: string; url: string; icon: string; category: string; }
 
@@ -26,8 +29,15 @@ const FEATURED_DAPPS: DApp[] = [
 
 const CATEGORIES = ['All', 'DEX', 'Lending', 'NFT', 'Aggregator', 'Perps'];
 
+// Requests that need a private key; refused in-page for watch-only wallets
+const SIGNING_METHODS = [
+  'eth_sendTransaction', 'eth_signTransaction', 'eth_sign', 'personal_sign',
+  'eth_signTypedData', 'eth_signTypedData_v3', 'eth_signTypedData_v4',
+];
+
 export default function DAppScreen() {
   const { meta } = useWalletStore();
+  const readOnly = isReadOnly(meta);
   const [activeUrl, setActiveUrl]     = useState<string | null>(null);
   const [urlInput, setUrlInput]       = useState('');
   const [category, setCategory]       = useState('All');
@@ -60,6 +70,12 @@ export default function DAppScreen() {
           }
           if (args.method === 'eth_chainId') return '0x1';
           if (args.method === 'net_version') return '1';
+          if (${readOnly} && ${JSON.stringify(SIGNING_METHODS)}.includes(args.method)) {
+            window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'READ_ONLY', payload: args }));
+            const err = new Error('Wallet is read-only');
+            err.code = 4100;
+            throw err;
+          }
           window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'RPC_REQUEST', payload: args }));
           return null;
         },
@@ -79,7 +95,7 @@ export default function DAppScreen() {
           <TouchableOpacity onPress={() => setActiveUrl(null)} style={styles.browserBack}>
             <Text style={styles.browserBackText}>✕</Text>
           </TouchableOpacity>
-          <TextInput
+          <ActivityTextInput
             style={styles.urlBar}
             value={urlInput}
             onChangeText={setUrlInput}
@@ -110,7 +126,9 @@ export default function DAppScreen() {
           onMessage={(e) => {
             try {
               const msg = JSON.parse(e.nativeEvent.data);
-              if (msg.type === 'RPC_REQUEST') {
+              if (msg.type === 'READ_ONLY') {
+                Alert.alert('Read-only Wallet', `Method: ${msg.payload.method}\n${READ_ONLY_MESSAGE}`);
+              } else if (msg.type === 'RPC_REQUEST') {
                 Alert.alert(
                   'DApp Request',
                   `Method: ${msg.payload.method}\nThis request requires WalletConnect session signing.`,
@@ -134,7 +152,7 @@ export default function DAppScreen() {
       <View style={styles.header}>
         <Text style={styles.title}>DApp Browser</Text>
         <View style={styles.searchRow}>
-          <TextInput
+          <ActivityTextInput
             style={styles.search}
             placeholder="Search or enter URL"
             placeholderTextColor={Colors.textMuted}
@@ -191,7 +209,9 @@ export default function DAppScreen() {
         <Text style={styles.wcText}>
           🔗 Connected wallet: {meta?.address?.slice(0, 8)}…{meta?.address?.slice(-4)}
         </Text>
-        <Text style={styles.wcSub}>Wallet auto-injected into all dApps</Text>
+        <Text style={styles.wcSub}>
+          {readOnly ? 'Watch-only: dApps can read this address but not request signatures' : 'Wallet auto-injected into all dApps'}
+        </Text>
       </View>
     </View>
   );
@@ -0,0 +1,187 @@
+/**
+ * ExportKeystoreScreen.tsx — Export one account as a keystore v3 JSON file
+ * The PIN unlocks the key; a separate backup password encrypts the file.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity,
+  ScrollView, Alert, ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Share from 'react-native-share';
+import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
+import { useWalletStore } from '../../store/walletStore';
+import { loadAccountPrivateKey } from '../../core/wallet';
+import { encryptKeystore, keystoreFilename, MIN_BACKUP_PASSWORD } from '../../core/keystore';
+import { attemptPin, failureMessage, formatLockout } from '../../core/lockout';
+import { withAutoLockSuspended } from '../../core/autolock';
+import { RootStackParams } from '../../navigation/AppNavigator';
+import PinPad from '../../components/PinPad';
+import ActivityTextInput from '../../components/ActivityTextInput';
+
+type Nav   = NativeStackNavigationProp<RootStackParams, 'ExportKeystore'>;
+type Route = RouteProp<RootStackParams, 'ExportKeystore'>;
+
+export default function ExportKeystoreScreen() {
+  const navigation = useNavigation<Nav>();
+  const { index }  = useRoute<Route>().params;
+  const { meta, reset } = useWalletStore();
+  const account = meta?.accounts.find(a => a.index === index);
+
+  const [privateKey, setPrivateKey] = useState<string | null>(null);
+  const [pin, setPin]               = useState('');
+  const [loading, setLoading]       = useState(false);
+  const [password, setPassword]     = useState('');
+  const [confirm, setConfirm]       = useState('');
+  const [progress, setProgress]     = useState<number | null>(null);
+
+  const checkPin = async (enteredPin: string) => {
+    setLoading(true);
+    try {
+      const result = await attemptPin(enteredPin);
+      switch (result.status) {
+        case 'ok':
+          setPrivateKey(await loadAccountPrivateKey(enteredPin, { walletId: meta!.id, index }));
+          return;
+        case 'locked':
+          Alert.alert('Locked', `Too many attempts. Try again in ${formatLockout(result.lockedUntil)}.`);
+          break;
+        case 'wiped':
+          reset();
+          Alert.alert('Wallet erased', 'Too many failed attempts. Restore your wallet with its recovery phrase.');
+          navigation.reset({ index: 0, routes: [{ name: 'Auth' }] });
+          return;
+        case 'wrong':
+          Alert.alert('Wrong PIN', failureMessage(result));
+          break;
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not load the account key.');
+    } finally {
+      setLoading(false);
+    }
+    setPin('');
+  };
+
+  const handleExport = async () => {
+    if (password.length < MIN_BACKUP_PASSWORD) {
+      Alert.alert('Password', `Use at least ${MIN_BACKUP_PASSWORD} characters.`);
+      return;
+    }
+    if (password !== confirm) {
+      Alert.alert('Password Mismatch', 'The passwords do not match.');
+      return;
+    }
+    setProgress(0);
+    try {
+      const json = await encryptKeystore(
+        { address: account!.address, privateKey: privateKey! }, password, setProgress,
+      );
+      await withAutoLockSuspended(() => Share.open({
+        title: 'Export keystore file',
+        url: `data:application/json;base64,${Buffer.from(json).toString('base64')}`,
+        filename: keystoreFilename(account!.address),
+        type: 'application/json',
+        failOnCancel: false,
+      }));
+      navigation.goBack();
+    } catch (e: any) {
+      Alert.alert('Export Failed', e.message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (!account) return null;
+
+  // ── PIN entry ───────────────────────────────────────────────────────────────
+  if (!privateKey) {
+    return (
+      <View style={styles.pinContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.back}>
+          <Text style={styles.backText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={styles.pinTitle}>Export Keystore</Text>
+        <Text style={styles.pinSubtitle}>Enter your PIN to export {account.name}</Text>
+        {loading
+          ? <ActivityIndicator color={Colors.primary} size="large" style={{ marginVertical: Spacing.xl }} />
+          : <PinPad value={pin} onChange={setPin} onComplete={checkPin} />}
+      </View>
+    );
+  }
+
+  // ── Backup password ─────────────────────────────────────────────────────────
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.headerRow}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Export Keystore</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <Text style={styles.subtitle}>
+        {account.name} · {account.address.slice(0, 8)}…{account.address.slice(-6)}
+      </Text>
+
+      <View style={styles.warning}>
+        <Text style={styles.warningText}>
+          🔒 The file is encrypted with the password below, not your PIN. Anyone with the file and the password controls this account.
+        </Text>
+      </View>
+
+      <ActivityTextInput
+        style={styles.input}
+        value={password}
+        onChangeText={setPassword}
+        placeholder={`Backup password (min. ${MIN_BACKUP_PASSWORD} characters)`}
+        placeholderTextColor={Colors.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry
+      />
+      <ActivityTextInput
+        style={styles.input}
+        value={confirm}
+        onChangeText={setConfirm}
+        placeholder="Confirm backup password"
+        placeholderTextColor={Colors.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry
+      />
+
+      <TouchableOpacity
+        style={[styles.btn, progress !== null && styles.btnDisabled]}
+        onPress={handleExport}
+        disabled={progress !== null}>
+        {progress !== null
+          ? <Text style={styles.btnText}>Encrypting… {progress}%</Text>
+          : <Text style={styles.btnText}>Export File</Text>
+        }
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container:    { flex: 1, backgroundColor: Colors.bg },
+  content:      { padding: Spacing.lg, paddingBottom: 40 },
+  headerRow:    { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: Spacing.xl },
+  title:        { ...Typography.h3 },
+  subtitle:     { ...Typography.body, color: Colors.textSecondary, marginBottom: Spacing.lg },
+  warning:      { backgroundColor: Colors.warning + '22', borderRadius: Radius.md, padding: Spacing.md, marginBottom: Spacing.lg, borderWidth: 1, borderColor: Colors.warning + '55' },
+  warningText:  { ...Typography.caption, color: Colors.warning, lineHeight: 18 },
+  input:        { backgroundColor: Colors.bgInput, borderWidth: 1, borderColor: Colors.border, borderRadius: Radius.md, padding: Spacing.md, color: Colors.textPrimary, fontSize: 15, marginBottom: Spacing.sm },
+  btn:          { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center', marginTop: Spacing.md },
+  btnDisabled:  { opacity: 0.6 },
+  btnText:      { color: '#fff', fontSize: 16, fontWeight: '700' },
+  pinContainer: { flex: 1, backgroundColor: Colors.bg, paddingHorizontal: Spacing.lg, alignItems: 'center', justifyContent: 'center' },
+  back:         { position: 'absolute', top: 56, left: Spacing.lg },
+  backText:     { color: Colors.primary, fontSize: 20 },
+  pinTitle:     { ...Typography.h2, marginBottom: Spacing.sm },
+  pinSubtitle:  { ...Typography.caption, color: Colors.textSecondary, textAlign: 'center', marginBottom: Spacing.xl },
+});
@@ -4,7 +4,7 @@
 import React, { useEffect, useCallback } from 'react';
 import {
   View, Text, StyleSheet, ScrollView, TouchableOpacity,
-  RefreshControl, StatusBar, FlatList,
+  RefreshControl, StatusBar, FlatList, Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -12,6 +12,9 @@ import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
 import { useWalletStore } from '../../store/walletStore';
 import { CHAINS, ChainKey } from '../../constants/chains';
 import { RootStackParams } from '../../navigation/AppNavigator';
+import { isReadOnly } from '../../core/wallet';
+import { formatTxAmount } from '../../core/transactions';
+import { READ_ONLY_MESSAGE } from '../../components/ReadOnlyNotice';
 
 type Nav = NativeStackNavigationProp<RootStackParams>;
 
@@ -31,6 +34,11 @@ export default function HomeScreen() {
     ? `${meta.address.slice(0, 6)}...${meta.address.slice(-4)}`
     : '';
 
+  const account  = meta?.accounts.find(a => a.index === meta.selectedAccount);
+  const self     = meta?.address.toLowerCase();
+  const history  = transactions.filter(tx => tx.from.toLowerCase() === self || tx.to.toLowerCase() === self);
+  const readOnly = isReadOnly(meta);
+
   const activeBalance = nativeBalances[activeChain] ?? '0.00';
   const chain = CHAINS[activeChain];
 
@@ -40,10 +48,15 @@ export default function HomeScreen() {
 
       {/* ── Header ── */}
       <View style={styles.header}>
-        <View>
-          <Text style={styles.headerLabel}>My Wallet</Text>
+        <TouchableOpacity onPress={() => navigation.navigate('Accounts')}>
+          <Text style={styles.headerLabel}>
+            {meta ? `${meta.name} · ${account?.name}` : 'My Wallet'} ▾
+          </Text>
           <Text style={styles.address}>{shortAddress}</Text>
-        </View>
+          {readOnly && (
+            <View style={styles.watchBadge}><Text style={styles.watchBadgeText}>👁 Watch-only</Text></View>
+          )}
+        </TouchableOpacity>
         <TouchableOpacity style={styles.scanBtn}>
           <Text style={{ fontSize: 22 }}>📷</Text>
         </TouchableOpacity>
@@ -55,6 +68,16 @@ export default function HomeScreen() {
           <RefreshControl refreshing={isLoading} onRefresh={refreshBalances} tintColor={Colors.primary} />
         }>
 
+        {/* ── Backup reminder ── */}
+        {meta?.type === 'hd' && !meta.backupVerified && (
+          <TouchableOpacity style={styles.backupBanner} onPress={() => navigation.navigate('BackupQuiz')}>
+            <Text style={styles.backupBannerTitle}>⚠ Backup not verified</Text>
+            <Text style={styles.backupBannerText}>
+              Confirm you wrote down the recovery phrase for {meta.name}. Tap to verify.
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* ── Balance Card ── */}
         <View style={styles.balanceCard}>
           <Text style={styles.usdLabel}>Total Balance</Text>
@@ -84,8 +107,10 @@ export default function HomeScreen() {
           {ACTIONS.map((a) => (
             <TouchableOpacity
               key={a.label}
-              style={styles.actionBtn}
-              onPress={() => navigation.navigate(a.screen as any)}>
+              style={[styles.actionBtn, readOnly && a.signs && styles.actionDisabled]}
+              onPress={() => readOnly && a.signs
+                ? Alert.alert('Read-only Wallet', READ_ONLY_MESSAGE)
+                : navigation.navigate(a.screen as any)}>
               <View style={styles.actionIcon}>
                 <Text style={{ fontSize: 22 }}>{a.icon}</Text>
               </View>
@@ -126,15 +151,20 @@ export default function HomeScreen() {
         {/* ── Recent Transactions ── */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Recent Activity</Text>
-          {transactions.length === 0 ? (
+          {history.length === 0 ? (
             <View style={styles.emptyTx}>
               <Text style={styles.emptyIcon}>📭</Text>
               <Text style={styles.emptyText}>No transactions yet</Text>
               <Text style={styles.emptySubtext}>Send or receive crypto to get started</Text>
             </View>
           ) : (
-            transactions.slice(0, 10).map((tx) => (
-              <View key={tx.hash} style={styles.txRow}>
+            history.slice(0, 10).map((tx) => (
+              <TouchableOpacity
+                key={`${tx.chainKey}:${tx.hash}:${tx.asset.contractAddress ?? tx.type}`}
+                style={styles.txRow}
+                onPress={() => navigation.navigate('TransactionDetail', {
+                  chainKey: tx.chainKey, hash: tx.hash, contractAddress: tx.asset.contractAddress,
+                })}>
                 <View style={styles.txIcon}>
                   <Text>{tx.type === 'receive' ? '⬇️' : '⬆️'}</Text>
                 </View>
@@ -144,13 +174,13 @@ export default function HomeScreen() {
                 </View>
                 <View>
                   <Text style={[styles.txAmount, tx.type === 'receive' ? styles.txGreen : styles.txRed]}>
-                    {tx.type === 'receive' ? '+' : '-'}{tx.value}
+                    {tx.type === 'receive' ? '+' : '-'}{formatTxAmount(tx)}
                   </Text>
                   <View style={[styles.txStatus, { backgroundColor: STATUS_COLOR[tx.status] + '33' }]}>
                     <Text style={[styles.txStatusText, { color: STATUS_COLOR[tx.status] }]}>{tx.status}</Text>
                   </View>
                 </View>
-              </View>
+              </TouchableOpacity>
             ))
           )}
         </View>
@@ -160,10 +190,10 @@ export default function HomeScreen() {
 }
 
 const ACTIONS = [
-  { label: 'Send',    icon: '⬆️', screen: 'Send' },
-  { label: 'Receive', icon: '⬇️', screen: 'Receive' },
-  { label: 'Swap',    icon: '🔄', screen: 'Main' },
-  { label: 'Stake',   icon: '💎', screen: 'Staking' },
+  { label: 'Send',    icon: '⬆️', screen: 'Send',    signs: true },
+  { label: 'Receive', icon: '⬇️', screen: 'Receive', signs: false },
+  { label: 'Swap',    icon: '🔄', screen: 'Main',    signs: true },
+  { label: 'Stake',   icon: '💎', screen: 'Staking', signs: true },
 ];
 
 const CHAIN_ICON: Record<string, string> = {
@@ -176,6 +206,7 @@ const STATUS_COLOR: Record<string, string> = {
   pending:   Colors.warning,
   confirmed: Colors.success,
   failed:    Colors.danger,
+  replaced:  Colors.textMuted,
 };
 
 const styles = StyleSheet.create({
@@ -184,6 +215,11 @@ const styles = StyleSheet.create({
   headerLabel:        { ...Typography.caption, color: Colors.textMuted },
   address:            { ...Typography.body, fontFamily: 'monospace', color: Colors.textSecondary },
   scanBtn:            { padding: Spacing.sm },
+  watchBadge:         { marginTop: 4, alignSelf: 'flex-start', backgroundColor: Colors.warning + '22', borderRadius: Radius.full, paddingHorizontal: 8, paddingVertical: 2 },
+  watchBadgeText:     { fontSize: 11, fontWeight: '600', color: Colors.warning },
+  backupBanner:       { marginHorizontal: Spacing.lg, marginBottom: Spacing.md, backgroundColor: Colors.warning + '15', borderWidth: 1, borderColor: Colors.warning + '55', borderRadius: Radius.md, padding: Spacing.md },
+  backupBannerTitle:  { ...Typography.body, fontWeight: '700', color: Colors.warning, marginBottom: 2 },
+  backupBannerText:   { ...Typography.caption, lineHeight: 18 },
   balanceCard:        { marginHorizontal: Spacing.lg, backgroundColor: Colors.bgCard, borderRadius: Radius.xl, padding: Spacing.lg, marginBottom: Spacing.lg, borderWidth: 1, borderColor: Colors.border },
   usdLabel:           { ...Typography.caption, color: Colors.textSecondary, marginBottom: 4 },
   usdValue:           { fontSize: 36, fontWeight: '700', color: Colors.textPrimary, marginBottom: 4 },
@@ -196,6 +232,7 @@ const styles = StyleSheet.create({
   chainPillTextActive:{ color: Colors.primary, fontWeight: '600' },
   actions:            { flexDirection: 'row', justifyContent: 'space-around', paddingHorizontal: Spacing.lg, marginBottom: Spacing.lg },
   actionBtn:          { alignItems: 'center', gap: 6 },
+  actionDisabled:     { opacity: 0.4 },
   actionIcon:         { width: 56, height: 56, borderRadius: 28, backgroundColor: Colors.bgCard, justifyContent: 'center', alignItems: 'center', borderWidth: 1, borderColor: Colors.border },
   actionLabel:        { ...Typography.caption, color: Colors.textSecondary },
   section:            { paddingHorizontal: Spacing.lg, marginBottom: Spacing.xl },
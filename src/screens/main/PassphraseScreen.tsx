@@ -0,0 +1,141 @@
+/**
+ * PassphraseScreen.tsx — Switch the BIP-39 passphrase of the current HD wallet
+ * Each passphrase opens a different ("hidden") wallet from the same phrase.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity,
+  ScrollView, Alert, ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
+import { useWalletStore } from '../../store/walletStore';
+import { attemptPin, failureMessage, formatLockout } from '../../core/lockout';
+import { RootStackParams } from '../../navigation/AppNavigator';
+import PinPad from '../../components/PinPad';
+import ActivityTextInput from '../../components/ActivityTextInput';
+
+type Nav = NativeStackNavigationProp<RootStackParams, 'Passphrase'>;
+
+export default function PassphraseScreen() {
+  const navigation = useNavigation<Nav>();
+  const { meta, switchPassphrase, reset } = useWalletStore();
+
+  const [passphrase, setPassphrase] = useState('');
+  const [step, setStep]             = useState<'form' | 'pin'>('form');
+  const [pin, setPin]               = useState('');
+  const [loading, setLoading]       = useState(false);
+
+  const checkPin = async (enteredPin: string) => {
+    setLoading(true);
+    try {
+      const result = await attemptPin(enteredPin);
+      switch (result.status) {
+        case 'ok':
+          await switchPassphrase(passphrase, enteredPin);
+          navigation.goBack();
+          return;
+        case 'locked':
+          Alert.alert('Locked', `Too many attempts. Try again in ${formatLockout(result.lockedUntil)}.`);
+          break;
+        case 'wiped':
+          reset();
+          Alert.alert('Wallet erased', 'Too many failed attempts. Restore your wallet with its recovery phrase.');
+          navigation.reset({ index: 0, routes: [{ name: 'Auth' }] });
+          return;
+        case 'wrong':
+          Alert.alert('Wrong PIN', failureMessage(result));
+          break;
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not switch passphrase.');
+    } finally {
+      setLoading(false);
+    }
+    setPin('');
+  };
+
+  // ── PIN confirmation ────────────────────────────────────────────────────────
+  if (step === 'pin') {
+    return (
+      <View style={styles.pinContainer}>
+        <TouchableOpacity onPress={() => { setStep('form'); setPin(''); }} style={styles.back}>
+          <Text style={styles.backText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.pinTitle}>Confirm with PIN</Text>
+        <Text style={styles.pinSubtitle}>
+          {passphrase ? 'Open the wallet protected by this passphrase' : 'Return to the standard wallet'}
+        </Text>
+        {loading
+          ? <ActivityIndicator color={Colors.primary} size="large" style={{ marginVertical: Spacing.xl }} />
+          : <PinPad value={pin} onChange={setPin} onComplete={checkPin} />}
+      </View>
+    );
+  }
+
+  // ── Passphrase entry ────────────────────────────────────────────────────────
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.headerRow}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.closeText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Passphrase</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <Text style={styles.status}>
+        {meta?.name} currently uses {meta?.hasPassphrase ? 'a passphrase' : 'no passphrase'}.
+      </Text>
+
+      <View style={styles.info}>
+        <Text style={styles.infoText}>
+          Every passphrase opens a different wallet from the same recovery phrase. Entering a new one
+          replaces the accounts shown for this wallet; entering the old one brings them back.
+          Leave it empty for the standard wallet.
+        </Text>
+      </View>
+
+      <ActivityTextInput
+        style={styles.input}
+        value={passphrase}
+        onChangeText={setPassphrase}
+        placeholder="Passphrase (empty for none)"
+        placeholderTextColor={Colors.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry
+      />
+
+      <TouchableOpacity style={styles.btn} onPress={() => { setStep('pin'); setPin(''); }}>
+        <Text style={styles.btnText}>{passphrase ? 'Open Hidden Wallet' : 'Use Standard Wallet'}</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.note}>
+        Passphrases are case-sensitive and are never checked: a typo opens an empty wallet.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container:    { flex: 1, backgroundColor: Colors.bg },
+  content:      { padding: Spacing.lg, paddingBottom: 40 },
+  headerRow:    { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: Spacing.xl },
+  closeText:    { color: Colors.primary, fontSize: 20 },
+  title:        { ...Typography.h3 },
+  status:       { ...Typography.body, color: Colors.textSecondary, marginBottom: Spacing.md },
+  info:         { backgroundColor: Colors.bgCard, borderWidth: 1, borderColor: Colors.border, borderRadius: Radius.md, padding: Spacing.md, marginBottom: Spacing.lg },
+  infoText:     { ...Typography.caption, lineHeight: 18 },
+  input:        { backgroundColor: Colors.bgInput, borderWidth: 1, borderColor: Colors.border, borderRadius: Radius.md, padding: Spacing.md, color: Colors.textPrimary, fontSize: 15, marginBottom: Spacing.lg },
+  btn:          { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center', marginBottom: Spacing.lg },
+  btnText:      { color: '#fff', fontSize: 16, fontWeight: '700' },
+  note:         { ...Typography.caption, color: Colors.textMuted, textAlign: 'center', lineHeight: 18 },
+  pinContainer: { flex: 1, backgroundColor: Colors.bg, paddingHorizontal: Spacing.lg, alignItems: 'center', justifyContent: 'center' },
+  back:         { position: 'absolute', top: 56, left: Spacing.lg },
+  backText:     { color: Colors.primary, fontSize: 16 },
+  pinTitle:     { ...Typography.h2, marginBottom: Spacing.sm },
+  pinSubtitle:  { ...Typography.caption, color: Colors.textSecondary, textAlign: 'center', marginBottom: Spacing.xl },
+});
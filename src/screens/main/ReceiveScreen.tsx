@@ -21,6 +21,7 @@ export default function ReceiveScreen() {
   const [selectedChain, setSelectedChain] = useState<ChainKey>(activeChain);
 
   const address = meta?.address ?? '';
+  const account = meta?.accounts.find(a => a.index === meta.selectedAccount);
   const chain   = CHAINS[selectedChain];
 
   const copyAddress = () => {
@@ -92,7 +93,7 @@ export default function ReceiveScreen() {
           <Text style={[styles.networkBadgeText, { color: chain.iconColor }]}>{chain.name}</Text>
         </View>
 
-        <Text style={styles.addressLabel}>Your {chain.name} Address</Text>
+        <Text style={styles.addressLabel}>{account?.name ?? 'Your'} · {chain.name} Address</Text>
         <Text style={styles.addressText} selectable>{address}</Text>
       </View>
 
@@ -0,0 +1,170 @@
+/**
+ * RevealSecretScreen.tsx — Show the active wallet's recovery phrase (or
+ * private key) after re-entering the PIN. Screenshots are blocked while the
+ * screen is open, nothing is copied to the clipboard, and the secret hides
+ * itself after a countdown or when the app leaves the foreground.
+ */
+import React, { useState, useEffect } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity,
+  ScrollView, Alert, ActivityIndicator, AppState,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { usePreventScreenshot } from 'react-native-screenshot-prevent';
+import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
+import { useWalletStore } from '../../store/walletStore';
+import { loadWalletSecret, WalletSecret } from '../../core/wallet';
+import { attemptPin, failureMessage, formatLockout } from '../../core/lockout';
+import { RootStackParams } from '../../navigation/AppNavigator';
+import PinPad from '../../components/PinPad';
+
+type Nav = NativeStackNavigationProp<RootStackParams, 'RevealSecret'>;
+
+const REVEAL_SECONDS = 60;
+
+export default function RevealSecretScreen() {
+  usePreventScreenshot();
+  const navigation = useNavigation<Nav>();
+  const { meta, reset } = useWalletStore();
+
+  const [secret, setSecret]       = useState<WalletSecret | null>(null);
+  const [pin, setPin]             = useState('');
+  const [loading, setLoading]     = useState(false);
+  const [remaining, setRemaining] = useState(REVEAL_SECONDS);
+
+  const label = meta?.type === 'privateKey' ? 'Private Key' : 'Recovery Phrase';
+
+  // Countdown while the secret is visible
+  useEffect(() => {
+    if (!secret) return;
+    setRemaining(REVEAL_SECONDS);
+    const id = setInterval(() => setRemaining(r => r - 1), 1000);
+    return () => clearInterval(id);
+  }, [secret]);
+
+  useEffect(() => {
+    if (remaining <= 0) setSecret(null);
+  }, [remaining]);
+
+  // Hide as soon as the app is backgrounded (app switcher thumbnails)
+  useEffect(() => {
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') setSecret(null);
+    });
+    return () => sub.remove();
+  }, []);
+
+  const checkPin = async (enteredPin: string) => {
+    setLoading(true);
+    try {
+      const result = await attemptPin(enteredPin);
+      switch (result.status) {
+        case 'ok':
+          setSecret(await loadWalletSecret(meta!, enteredPin));
+          break;
+        case 'locked':
+          Alert.alert('Locked', `Too many attempts. Try again in ${formatLockout(result.lockedUntil)}.`);
+          break;
+        case 'wiped':
+          reset();
+          Alert.alert('Wallet erased', 'Too many failed attempts. Restore your wallet with its recovery phrase.');
+          navigation.reset({ index: 0, routes: [{ name: 'Auth' }] });
+          return;
+        case 'wrong':
+          Alert.alert('Wrong PIN', failureMessage(result));
+          break;
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e.message || `Could not load ${label.toLowerCase()}.`);
+    } finally {
+      setLoading(false);
+    }
+    setPin('');
+  };
+
+  // ── PIN entry ───────────────────────────────────────────────────────────────
+  if (!secret) {
+    return (
+      <View style={styles.pinContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.back}>
+          <Text style={styles.backText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={styles.pinTitle}>{label}</Text>
+        <Text style={styles.pinSubtitle}>Enter your PIN to reveal your {label.toLowerCase()}</Text>
+        {loading && <ActivityIndicator color={Colors.primary} style={{ marginBottom: Spacing.lg }} />}
+        <PinPad value={pin} onChange={setPin} onComplete={checkPin} disabled={loading} />
+      </View>
+    );
+  }
+
+  // ── Secret ──────────────────────────────────────────────────────────────────
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.headerRow}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{label}</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.warning}>
+        <Text style={styles.warningText}>
+          ⚠️ Anyone who sees this can take your funds. Make sure no one is watching your screen.
+        </Text>
+      </View>
+
+      {secret.type === 'mnemonic' ? (
+        <View style={styles.grid}>
+          {secret.value.split(' ').map((word, i) => (
+            <View key={i} style={styles.wordCard}>
+              <Text style={styles.wordIndex}>{i + 1}</Text>
+              <Text style={styles.word}>{word}</Text>
+            </View>
+          ))}
+        </View>
+      ) : (
+        <View style={styles.keyCard}>
+          <Text style={styles.keyValue} selectable={false}>{secret.value}</Text>
+        </View>
+      )}
+
+      {secret.type === 'mnemonic' && secret.passphrase.length > 0 && (
+        <Text style={styles.passphraseNote}>
+          🔐 This wallet also uses a passphrase. The words alone restore a different, empty wallet — keep the passphrase with your backup.
+        </Text>
+      )}
+
+      <Text style={styles.countdown}>Hides in {remaining}s · copying is disabled</Text>
+
+      <TouchableOpacity style={styles.btn} onPress={() => setSecret(null)}>
+        <Text style={styles.btnText}>Hide Now</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container:      { flex: 1, backgroundColor: Colors.bg },
+  content:        { padding: Spacing.lg, paddingBottom: 40 },
+  headerRow:      { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: Spacing.xl },
+  title:          { ...Typography.h3 },
+  warning:        { backgroundColor: Colors.warning + '22', borderRadius: Radius.md, padding: Spacing.md, marginBottom: Spacing.lg, borderWidth: 1, borderColor: Colors.warning + '55' },
+  warningText:    { ...Typography.caption, color: Colors.warning, lineHeight: 18 },
+  grid:           { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: Spacing.lg },
+  wordCard:       { width: '30%', backgroundColor: Colors.bgCard, borderRadius: Radius.sm, padding: Spacing.sm, alignItems: 'center', borderWidth: 1, borderColor: Colors.border },
+  wordIndex:      { ...Typography.caption, color: Colors.textMuted, marginBottom: 2 },
+  word:           { ...Typography.body, fontWeight: '600', fontFamily: 'monospace' },
+  keyCard:        { backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, marginBottom: Spacing.lg, borderWidth: 1, borderColor: Colors.border },
+  keyValue:       { ...Typography.body, fontFamily: 'monospace', lineHeight: 22 },
+  passphraseNote: { ...Typography.caption, lineHeight: 18, marginBottom: Spacing.lg },
+  countdown:      { ...Typography.caption, color: Colors.textMuted, textAlign: 'center', marginBottom: Spacing.md },
+  btn:            { alignItems: 'center', padding: Spacing.md, borderRadius: Radius.lg, borderWidth: 1, borderColor: Colors.primary },
+  btnText:        { color: Colors.primary, fontWeight: '700', fontSize: 15 },
+  pinContainer:   { flex: 1, backgroundColor: Colors.bg, paddingHorizontal: Spacing.lg, alignItems: 'center', justifyContent: 'center' },
+  back:           { position: 'absolute', top: 56, left: Spacing.lg },
+  backText:       { color: Colors.primary, fontSize: 20 },
+  pinTitle:       { ...Typography.h2, marginBottom: Spacing.sm },
+  pinSubtitle:    { ...Typography.caption, color: Colors.textSecondary, textAlign: 'center', marginBottom: Spacing.xl },
+});
@@ -1,82 +1,291 @@
 /**
  * SendScreen.tsx — Send native tokens or ERC-20 tokens across chains
  */
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
-  View, Text, StyleSheet, TouchableOpacity, TextInput,
+  View, Text, StyleSheet, TouchableOpacity,
   ScrollView, Alert, ActivityIndicator, KeyboardAvoidingView, Platform,
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ethers } from 'ethers';
 import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
 import { CHAINS, ChainKey } from '../../constants/chains';
-import { useWalletStore } from '../../store/walletStore';
-import { sendNative } from '../../core/wallet';
+import { useWalletStore, tokensOn } from '../../store/walletStore';
+import {
+  sendNative, sendToken, encodeTokenTransfer, selectedAccountRef, isReadOnly,
+} from '../../core/wallet';
+import { attemptPin, attemptBiometricPin, failureMessage, formatLockout } from '../../core/lockout';
+import {
+  getBiometricUnlockLabel, loadBiometricPin, BiometricInvalidatedError, STALE_BIOMETRIC_MESSAGE,
+} from '../../core/biometrics';
+import { canSignWithSession, SessionExpiredError, SigningAction } from '../../core/session';
+import { estimateFees, formatFee, maxSendable, FeeEstimate, FeeQuote } from '../../core/fees';
+import { getNativeUsdPrice } from '../../core/prices';
+import { sentTxFields } from '../../core/transactions';
 import { RootStackParams } from '../../navigation/AppNavigator';
+import ReadOnlyNotice from '../../components/ReadOnlyNotice';
+import FeeSelector from '../../components/FeeSelector';
+import PinPad from '../../components/PinPad';
+import ActivityTextInput from '../../components/ActivityTextInput';
 
 type RouteType = RouteProp<RootStackParams, 'Send'>;
+type Nav       = NativeStackNavigationProp<RootStackParams, 'Send'>;
 
-const PIN_LENGTH = 6;
-const PAD = ['1','2','3','4','5','6','7','8','9','','0','⌫'];
+const ADDRESS_RE = /^0x[a-fA-F0-9]{40}$/;
+// Fee quotes go stale quickly on busy chains
+const FEE_REFRESH_MS = 15_000;
+
+function toUnits(value: string, decimals: number): bigint {
+  try {
+    return ethers.parseUnits(value, decimals);
+  } catch {
+    return 0n;
+  }
+}
 
 export default function SendScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<Nav>();
   const route      = useRoute<RouteType>();
 
-  const { meta, activeChain, nativeBalances, addTransaction } = useWalletStore();
+  const { meta, activeChain, nativeBalances, assets, addTransaction, reset } = useWalletStore();
 
   const [toAddress, setToAddress]   = useState('');
   const [amount, setAmount]         = useState('');
   const [selectedChain, setChain]   = useState<ChainKey>(activeChain);
+  const [tokenAddress, setTokenAddress] = useState<string | null>(null);  // null sends the native coin
   const [step, setStep]             = useState<'form' | 'pin' | 'sending'>('form');
   const [pin, setPin]               = useState('');
   const [loading, setLoading]       = useState(false);
+  const [biometryLabel, setBiometryLabel] = useState<string | null>(null);
+  const [feeEstimate, setFeeEstimate] = useState<FeeEstimate | null>(null);
+  const [feeError, setFeeError]       = useState<string | null>(null);
+  const [fee, setFee]                 = useState<FeeQuote | null>(null);
+  const [usdPrice, setUsdPrice]       = useState<number | null>(null);
+  const [maxMode, setMaxMode]         = useState(false);
 
   const chain   = CHAINS[selectedChain];
   const balance = nativeBalances[selectedChain] ?? '0';
+  const balanceWei = toUnits(balance, chain.decimals);
+
+  // ── Asset: native coin or a held ERC-20 on the selected chain ──────────────
+  const tokens   = tokensOn(assets, selectedChain);
+  const token    = tokens.find(t => t.contractAddress === tokenAddress);
+  const symbol   = token?.symbol ?? chain.symbol;
+  const decimals = token?.decimals ?? chain.decimals;
+  const assetBalance = token ? toUnits(token.balance, token.decimals) : balanceWei;
+  const max = fee
+    ? maxSendable(
+        token
+          ? { kind: 'token', balance: assetBalance, nativeBalance: balanceWei }
+          : { kind: 'native', balance: balanceWei },
+        fee,
+      )
+    : null;
+  const account = meta?.accounts.find(a => a.index === meta.selectedAccount);
+  const readOnly = isReadOnly(meta);
+  // Until the recipient is valid, estimate a transfer to ourselves
+  const feeTarget = ADDRESS_RE.test(toAddress) ? toAddress.toLowerCase() : meta?.address;
 
-  // ── Validation ──────────────────────────────────────────────────────────────
-  const validate = () => {
-    if (!toAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
+  // ── Validation (returns the amount in wei) ──────────────────────────────────
+  const validate = (): bigint | null => {
+    if (!ADDRESS_RE.test(toAddress)) {
       Alert.alert('Invalid Address', 'Please enter a valid EVM wallet address.');
-      return false;
+      return null;
     }
     if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
       Alert.alert('Invalid Amount', 'Please enter a valid amount.');
-      return false;
+      return null;
+    }
+    let value: bigint;
+    try {
+      value = ethers.parseUnits(amount, decimals);
+    } catch {
+      Alert.alert('Invalid Amount', `${symbol} supports at most ${decimals} decimal places.`);
+      return null;
+    }
+    if (value > assetBalance) {
+      Alert.alert('Insufficient Balance', `You only have ${ethers.formatUnits(assetBalance, decimals)} ${symbol}`);
+      return null;
+    }
+    if (max && max.gasShortfall > 0n) {
+      Alert.alert(
+        'Insufficient Gas',
+        `You need ${formatFee(max.gasShortfall, chain.symbol)} more to cover the network fee.`,
+      );
+      return null;
+    }
+    if (max && value > max.amount) {
+      Alert.alert(
+        'Insufficient Balance',
+        `The network fee can reach ${formatFee(fee!.maxCost, chain.symbol)}. You can send at most ${ethers.formatEther(max.amount)} ${chain.symbol}.`,
+      );
+      return null;
+    }
+    return value;
+  };
+
+  // ── MAX: balance minus the worst-case fee of the selected preset ────────────
+  const applyMax = () => {
+    if (!max) {
+      Alert.alert('Network Fee', 'Wait for the fee estimate, then try again.');
+      return;
+    }
+    if (max.gasShortfall > 0n) {
+      Alert.alert('Insufficient Gas', `Not enough ${chain.symbol} to cover the network fee.`);
+      return;
+    }
+    setMaxMode(true);
+  };
+
+  // Follows fee, balance and asset changes until the amount is edited by hand
+  useEffect(() => {
+    if (maxMode && max) setAmount(max.gasShortfall > 0n ? '0' : ethers.formatUnits(max.amount, decimals));
+  }, [maxMode, max?.amount, decimals]);
+
+  const selectChain = (key: ChainKey) => {
+    setChain(key);
+    setTokenAddress(null);
+  };
+
+  const editAmount = (text: string) => {
+    setMaxMode(false);
+    setAmount(text);
+  };
+
+  // ── Fee estimate (refreshed while the form is open) ────────────────────────
+  useEffect(() => {
+    if (!meta || !feeTarget || readOnly || step !== 'form') return;
+    let cancelled = false;
+    const load = () => {
+      // Token gas is estimated for moving the whole balance, so it does not
+      // change with every keystroke
+      const request = token
+        ? { from: meta.address, to: token.contractAddress!, data: encodeTokenTransfer(feeTarget, assetBalance) }
+        : { from: meta.address, to: feeTarget };
+      Promise.all([
+        estimateFees(selectedChain, request),
+        getNativeUsdPrice(selectedChain),
+      ])
+        .then(([estimate, price]) => {
+          if (cancelled) return;
+          setFeeEstimate(estimate);
+          setUsdPrice(price);
+          setFeeError(null);
+        })
+        .catch((e: any) => { if (!cancelled) setFeeError(e.shortMessage || e.message || 'network error'); });
+    };
+    setFeeEstimate(null);
+    setFeeError(null);
+    load();
+    const id = setInterval(load, FEE_REFRESH_MS);
+    return () => { cancelled = true; clearInterval(id); };
+  }, [selectedChain, feeTarget, meta?.address, readOnly, step, token?.contractAddress, assetBalance]);
+
+  // Share of the holding's fiat value; null when the token has no price
+  const tokenUsdValue = (value: bigint): number | null => {
+    if (!token || token.usdValue === null || assetBalance === 0n) return null;
+    return token.usdValue * Number(value) / Number(assetBalance);
+  };
+
+  // ── Review: small sends sign with the session key, the rest ask for the PIN ─
+  const handleReview = () => {
+    if (feeEstimate && !fee) {
+      Alert.alert('Invalid Fee', 'Fix the advanced fee settings or switch back to a preset.');
+      return;
     }
-    if (Number(amount) > Number(balance)) {
-      Alert.alert('Insufficient Balance', `You only have ${parseFloat(balance).toFixed(6)} ${chain.symbol}`);
-      return false;
+    const value = validate();
+    if (value === null) return;
+    const action: SigningAction = token
+      ? { type: 'tokenTransfer', chainKey: selectedChain, usdValue: tokenUsdValue(value) }
+      : { type: 'send', chainKey: selectedChain, value };
+    if (canSignWithSession(selectedAccountRef(meta!), action)) {
+      Alert.alert(
+        'Confirm Send',
+        `Send ${amount} ${symbol} to ${toAddress.slice(0, 8)}…${toAddress.slice(-6)}?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Send', onPress: () => executeSend(null) },
+        ],
+      );
+      return;
+    }
+    setStep('pin');
+    setPin('');
+  };
+
+  useEffect(() => {
+    getBiometricUnlockLabel().then(setBiometryLabel).catch(() => {});
+  }, []);
+
+  // ── Biometric confirmation (PIN pad stays as fallback) ──────────────────────
+  const confirmWithBiometrics = async () => {
+    try {
+      const storedPin = await loadBiometricPin(`Send ${amount} ${symbol}`);
+      if (storedPin) await checkPin(storedPin, true);
+    } catch (e: any) {
+      setBiometryLabel(null);
+      if (e instanceof BiometricInvalidatedError) Alert.alert('Biometric Unlock', e.message);
     }
-    return true;
   };
 
-  // ── PIN pad handler ─────────────────────────────────────────────────────────
-  const handlePinKey = async (key: string) => {
-    if (key === '⌫') { setPin(p => p.slice(0, -1)); return; }
-    if (pin.length >= PIN_LENGTH) return;
-    const next = pin + key;
-    setPin(next);
-    if (next.length === PIN_LENGTH) {
-      await executeSend(next);
+  // ── PIN check (shared lockout with UnlockScreen) ────────────────────────────
+  const checkPin = async (enteredPin: string, fromBiometrics = false) => {
+    setLoading(true);
+    let result;
+    try {
+      result = fromBiometrics ? await attemptBiometricPin(enteredPin) : await attemptPin(enteredPin);
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not verify PIN.');
+      setPin('');
+      return;
+    } finally {
+      setLoading(false);
     }
+    switch (result.status) {
+      case 'ok':
+        await executeSend(enteredPin);
+        return;
+      case 'stale':
+        setBiometryLabel(null);
+        Alert.alert('Biometric Unlock', STALE_BIOMETRIC_MESSAGE);
+        break;
+      case 'locked':
+        Alert.alert('Locked', `Too many attempts. Try again in ${formatLockout(result.lockedUntil)}.`);
+        break;
+      case 'wiped':
+        reset();
+        Alert.alert('Wallet erased', 'Too many failed attempts. Restore your wallet with its recovery phrase.');
+        navigation.reset({ index: 0, routes: [{ name: 'Auth' }] });
+        return;
+      case 'wrong':
+        Alert.alert('Wrong PIN', failureMessage(result));
+        break;
+    }
+    setPin('');
   };
 
   // ── Execute transaction ─────────────────────────────────────────────────────
-  const executeSend = async (enteredPin: string) => {
+  // A null PIN signs with the session key
+  const executeSend = async (enteredPin: string | null) => {
     setStep('sending');
     setLoading(true);
     try {
-      const tx = await sendNative(toAddress, amount, selectedChain, enteredPin);
+      const ref = selectedAccountRef(meta!);
+      const tx  = token
+        ? await sendToken(token.contractAddress!, toAddress, amount, selectedChain, enteredPin, ref, fee?.params)
+        : await sendNative(toAddress, amount, selectedChain, enteredPin, ref, fee?.params);
       addTransaction({
         hash: tx.hash,
         from: meta!.address,
         to: toAddress,
-        value: `${amount} ${chain.symbol}`,
+        amount: ethers.parseUnits(amount, decimals).toString(),
+        asset: { symbol, decimals, contractAddress: token?.contractAddress },
         timestamp: Date.now(),
         status: 'pending',
         type: 'send',
         chainKey: selectedChain,
+        ...sentTxFields(tx),
       });
       Alert.alert(
         '✅ Sent!',
@@ -84,6 +293,11 @@ export default function SendScreen() {
         [{ text: 'Done', onPress: () => navigation.goBack() }],
       );
     } catch (e: any) {
+      if (e instanceof SessionExpiredError) {
+        setStep('pin');
+        setPin('');
+        return;
+      }
       Alert.alert('Transaction Failed', e.message || 'Unknown error');
       setStep('form');
       setPin('');
@@ -99,31 +313,19 @@ export default function SendScreen() {
         <TouchableOpacity onPress={() => { setStep('form'); setPin(''); }} style={styles.back}>
           <Text style={styles.backText}>← Back</Text>
         </TouchableOpacity>
-        <Text style={styles.pinTitle}>Confirm with PIN</Text>
+        <Text style={styles.pinTitle}>{step === 'sending' ? 'Sending…' : 'Confirm with PIN'}</Text>
         <Text style={styles.pinSubtitle}>
-          Sending {amount} {chain.symbol} to{'\n'}{toAddress.slice(0,8)}…{toAddress.slice(-6)}
+          Sending {amount} {symbol} to{'\n'}{toAddress.slice(0,8)}…{toAddress.slice(-6)}
+          {fee && `\nNetwork fee ≈ ${formatFee(fee.expectedCost, chain.symbol)}`}
         </Text>
-        <View style={styles.dots}>
-          {Array.from({ length: PIN_LENGTH }, (_, i) => (
-            <View key={i} style={[styles.dot, i < pin.length && styles.dotFilled]} />
-          ))}
-        </View>
         {loading
           ? <ActivityIndicator color={Colors.primary} size="large" style={{ marginVertical: Spacing.xl }} />
-          : (
-            <View style={styles.pad}>
-              {PAD.map((key, i) => (
-                <TouchableOpacity
-                  key={i}
-                  style={[styles.key, key === '' && styles.keyEmpty]}
-                  onPress={() => key && handlePinKey(key)}
-                  disabled={!key}
-                  activeOpacity={0.7}>
-                  <Text style={styles.keyText}>{key}</Text>
-                </TouchableOpacity>
-              ))}
-            </View>
-          )}
+          : <PinPad value={pin} onChange={setPin} onComplete={(next) => checkPin(next)} />}
+        {biometryLabel && !loading && (
+          <TouchableOpacity onPress={confirmWithBiometrics} style={styles.biometricBtn}>
+            <Text style={styles.biometricText}>Use {biometryLabel}</Text>
+          </TouchableOpacity>
+        )}
       </View>
     );
   }
@@ -140,6 +342,15 @@ export default function SendScreen() {
           <View style={{ width: 24 }} />
         </View>
 
+        {/* From account */}
+        <Text style={styles.label}>From</Text>
+        <View style={styles.fromRow}>
+          <Text style={styles.fromName}>{account?.name}</Text>
+          <Text style={styles.fromAddress}>{meta?.address.slice(0, 8)}…{meta?.address.slice(-6)}</Text>
+        </View>
+
+        {readOnly && <ReadOnlyNotice action="Sending" />}
+
         {/* Chain selector */}
         <Text style={styles.label}>Network</Text>
         <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginBottom: Spacing.md }}>
@@ -147,7 +358,7 @@ export default function SendScreen() {
             <TouchableOpacity
               key={key}
               style={[styles.chainPill, selectedChain === key && styles.chainPillActive]}
-              onPress={() => setChain(key)}>
+              onPress={() => selectChain(key)}>
               <View style={[styles.chainDot, { backgroundColor: CHAINS[key].iconColor }]} />
               <Text style={[styles.chainPillText, selectedChain === key && { color: Colors.primary }]}>
                 {CHAINS[key].name}
@@ -156,10 +367,27 @@ export default function SendScreen() {
           ))}
         </ScrollView>
 
+        {/* Asset selector */}
+        <Text style={styles.label}>Asset</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginBottom: Spacing.md }}>
+          {[null, ...tokens.map(t => t.contractAddress!)].map((address) => {
+            const active = address === (token?.contractAddress ?? null);
+            const label  = address ? tokens.find(t => t.contractAddress === address)!.symbol : chain.symbol;
+            return (
+              <TouchableOpacity
+                key={address ?? 'native'}
+                style={[styles.chainPill, active && styles.chainPillActive]}
+                onPress={() => setTokenAddress(address)}>
+                <Text style={[styles.chainPillText, active && { color: Colors.primary }]}>{label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
         {/* To address */}
         <Text style={styles.label}>To Address</Text>
         <View style={styles.inputRow}>
-          <TextInput
+          <ActivityTextInput
             style={[styles.input, { flex: 1 }]}
             value={toAddress}
             onChangeText={setToAddress}
@@ -176,33 +404,40 @@ export default function SendScreen() {
         {/* Amount */}
         <Text style={styles.label}>Amount</Text>
         <View style={styles.inputRow}>
-          <TextInput
+          <ActivityTextInput
             style={[styles.input, { flex: 1 }]}
             value={amount}
-            onChangeText={setAmount}
+            onChangeText={editAmount}
             placeholder="0.00"
             placeholderTextColor={Colors.textMuted}
             keyboardType="decimal-pad"
           />
           <TouchableOpacity
             style={styles.maxBtn}
-            onPress={() => setAmount(parseFloat(balance).toFixed(6))}>
+            onPress={applyMax}>
             <Text style={styles.maxBtnText}>MAX</Text>
           </TouchableOpacity>
         </View>
         <Text style={styles.balanceHint}>
-          Available: {parseFloat(balance).toFixed(6)} {chain.symbol}
+          Available: {parseFloat(ethers.formatUnits(assetBalance, decimals)).toFixed(6)} {symbol}
         </Text>
 
         {/* Fee estimate */}
-        <View style={styles.feeCard}>
-          <Text style={styles.feeLabel}>Estimated Gas Fee</Text>
-          <Text style={styles.feeValue}>~0.0001 {chain.symbol}</Text>
-        </View>
+        {!readOnly && (
+          <FeeSelector
+            key={selectedChain}
+            estimate={feeEstimate}
+            error={feeError}
+            symbol={chain.symbol}
+            usdPrice={usdPrice}
+            onChange={setFee}
+          />
+        )}
 
         <TouchableOpacity
-          style={styles.sendBtn}
-          onPress={() => { if (validate()) { setStep('pin'); setPin(''); } }}>
+          style={[styles.sendBtn, readOnly && styles.sendBtnDisabled]}
+          disabled={readOnly}
+          onPress={handleReview}>
           <Text style={styles.sendBtnText}>Review Transaction →</Text>
         </TouchableOpacity>
       </ScrollView>
@@ -218,6 +453,9 @@ const styles = StyleSheet.create({
   headerTitle:     { ...Typography.h3 },
   label:           { ...Typography.label, marginBottom: 6, marginTop: Spacing.md },
   inputRow:        { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  fromRow:         { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, borderWidth: 1, borderColor: Colors.border },
+  fromName:        { ...Typography.body, fontWeight: '600' },
+  fromAddress:     { ...Typography.caption, fontFamily: 'monospace' },
   input:           { backgroundColor: Colors.bgInput, borderWidth: 1, borderColor: Colors.border, borderRadius: Radius.md, padding: Spacing.md, color: Colors.textPrimary, fontSize: 15 },
   scanIcon:        { padding: Spacing.md, backgroundColor: Colors.bgCard, borderRadius: Radius.md, borderWidth: 1, borderColor: Colors.border },
   maxBtn:          { padding: Spacing.md, backgroundColor: Colors.primary + '22', borderRadius: Radius.md },
@@ -227,21 +465,14 @@ const styles = StyleSheet.create({
   chainPillActive: { borderColor: Colors.primary },
   chainDot:        { width: 8, height: 8, borderRadius: 4 },
   chainPillText:   { ...Typography.caption, color: Colors.textSecondary },
-  feeCard:         { flexDirection: 'row', justifyContent: 'space-between', backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, marginTop: Spacing.md, marginBottom: Spacing.lg, borderWidth: 1, borderColor: Colors.border },
-  feeLabel:        { ...Typography.caption, color: Colors.textSecondary },
-  feeValue:        { ...Typography.caption, color: Colors.warning },
   sendBtn:         { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center' },
+  sendBtnDisabled: { opacity: 0.4 },
   sendBtnText:     { color: '#fff', fontSize: 16, fontWeight: '700' },
   // PIN styles
   pinContainer:    { flex: 1, backgroundColor: Colors.bg, paddingHorizontal: Spacing.lg, alignItems: 'center', justifyContent: 'center' },
   back:            { position: 'absolute', top: 56, left: Spacing.lg },
   pinTitle:        { ...Typography.h2, marginBottom: Spacing.sm },
   pinSubtitle:     { ...Typography.caption, color: Colors.textSecondary, textAlign: 'center', marginBottom: Spacing.xl },
-  dots:            { flexDirection: 'row', gap: Spacing.md, marginBottom: Spacing.xl },
-  dot:             { width: 16, height: 16, borderRadius: 8, borderWidth: 2, borderColor: Colors.border },
-  dotFilled:       { backgroundColor: Colors.primary, borderColor: Colors.primary },
-  pad:             { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', gap: 12, width: '80%' },
-  key:             { width: 80, height: 80, borderRadius: 40, backgroundColor: Colors.bgCard, justifyContent: 'center', alignItems: 'center' },
-  keyEmpty:        { backgroundColor: 'transparent' },
-  keyText:         { ...Typography.h2 },
+  biometricBtn:    { marginTop: Spacing.lg, paddingVertical: Spacing.sm, paddingHorizontal: Spacing.lg, borderRadius: Radius.lg, borderWidth: 1, borderColor: Colors.primary },
+  biometricText:   { color: Colors.primary, fontWeight: '600', fontSize: 15 },
 });
@@ -1,36 +1,117 @@
 /**
  * SettingsScreen.tsx — App settings, security, backup, network config
  */
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View, Text, StyleSheet, ScrollView,
   TouchableOpacity, Switch, Alert,
 } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
 import { useWalletStore } from '../../store/walletStore';
-import { deleteWallet } from '../../core/wallet';
+import { getWipePolicy, setWipePolicy, DEFAULT_WIPE_AFTER } from '../../core/lockout';
+import { getBiometryLabel, isBiometricEnabled, disableBiometrics } from '../../core/biometrics';
+import {
+  getAutoLockTimeout, setAutoLockTimeout, AUTO_LOCK_OPTIONS, DEFAULT_AUTO_LOCK, AutoLockTimeout,
+} from '../../core/autolock';
+import {
+  getSessionTtl, setSessionTtl, SESSION_TTL_OPTIONS, DEFAULT_SESSION_TTL, SessionTtl,
+} from '../../core/session';
 import { CHAINS, ChainKey } from '../../constants/chains';
+import { RootStackParams, lockAndShowUnlock } from '../../navigation/AppNavigator';
+
+type Nav = NativeStackNavigationProp<RootStackParams>;
 
 const CHAIN_ORDER: ChainKey[] = ['ethereum', 'bsc', 'polygon'];
 
 export default function SettingsScreen() {
-  const { meta, activeChain, setActiveChain, setUnlocked, reset } = useWalletStore();
+  const navigation = useNavigation<Nav>();
+  const { meta, activeChain, setActiveChain, removeWallet } = useWalletStore();
   const [biometrics, setBiometrics] = useState(false);
+  const [biometryLabel, setBiometryLabel] = useState<string | null>(null);
   const [notifications, setNotifications] = useState(true);
   const [testnet, setTestnet] = useState(false);
+  const [wipeOnFailures, setWipeOnFailures] = useState(false);
+  const [autoLock, setAutoLock] = useState<AutoLockTimeout>(DEFAULT_AUTO_LOCK);
+  const [sessionTtl, setTtl] = useState<SessionTtl>(DEFAULT_SESSION_TTL);
+
+  useEffect(() => {
+    getWipePolicy().then(n => setWipeOnFailures(n !== null)).catch(() => {});
+    getAutoLockTimeout().then(setAutoLock).catch(() => {});
+    getSessionTtl().then(setTtl).catch(() => {});
+  }, []);
+
+  const changeAutoLock = async (value: AutoLockTimeout) => {
+    try {
+      await setAutoLockTimeout(value);
+      setAutoLock(value);
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    }
+  };
+
+  const changeSessionTtl = async (value: SessionTtl) => {
+    try {
+      await setSessionTtl(value);
+      setTtl(value);
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    }
+  };
+
+  // Re-read on focus: enabling happens on BiometricSetup, and a changed
+  // enrollment can switch it off from Unlock or Send
+  useEffect(() => navigation.addListener('focus', () => {
+    isBiometricEnabled().then(setBiometrics).catch(() => {});
+    getBiometryLabel().then(setBiometryLabel).catch(() => setBiometryLabel(null));
+  }), [navigation]);
+
+  const toggleBiometrics = async (enabled: boolean) => {
+    if (enabled) {
+      navigation.navigate('BiometricSetup');
+      return;
+    }
+    try {
+      await disableBiometrics();
+      setBiometrics(false);
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    }
+  };
+
+  const toggleWipeOnFailures = (enabled: boolean) => {
+    const apply = async () => {
+      try {
+        await setWipePolicy(enabled ? DEFAULT_WIPE_AFTER : null);
+        setWipeOnFailures(enabled);
+      } catch (e: any) {
+        Alert.alert('Error', e.message);
+      }
+    };
+    if (!enabled) { apply(); return; }
+    Alert.alert(
+      'Erase after failed attempts',
+      `After ${DEFAULT_WIPE_AFTER} wrong PINs in a row, the wallet will be deleted from this device. Only enable this if your recovery phrase is backed up.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Enable', style: 'destructive', onPress: apply },
+      ],
+    );
+  };
 
   const shortAddress = meta?.address
     ? `${meta.address.slice(0, 8)}...${meta.address.slice(-6)}`
     : 'Not connected';
 
   const handleLock = () => {
-    setUnlocked(false);
+    lockAndShowUnlock();
   };
 
   const handleWipeWallet = () => {
     Alert.alert(
       '⚠️ Delete Wallet',
-      'This will permanently delete your wallet from this device. Make sure you have your recovery phrase backed up. This action cannot be undone.',
+      `This will permanently delete "${meta?.name}" from this device. Other wallets are kept. Make sure you have its recovery phrase backed up. This action cannot be undone.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -38,8 +119,7 @@ export default function SettingsScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteWallet();
-              reset();
+              if (meta) await removeWallet(meta.id);
             } catch (e: any) {
               Alert.alert('Error', e.message);
             }
@@ -49,13 +129,16 @@ export default function SettingsScreen() {
     );
   };
 
+  const isPrivateKey = meta?.type === 'privateKey';
+  const secretLabel  = isPrivateKey ? 'Private Key' : 'Recovery Phrase';
+
   const handleBackupPhrase = () => {
     Alert.alert(
-      'View Recovery Phrase',
-      'You will need to enter your PIN to reveal your recovery phrase. Never share it with anyone.',
+      `View ${secretLabel}`,
+      `You will need to enter your PIN to reveal your ${secretLabel.toLowerCase()}. Never share it with anyone.`,
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Continue', onPress: () => Alert.alert('PIN Required', 'PIN entry for backup view — implement via UnlockScreen flow.') },
+        { text: 'Continue', onPress: () => navigation.navigate('RevealSecret') },
       ],
     );
   };
@@ -65,43 +148,114 @@ export default function SettingsScreen() {
       <Text style={styles.pageTitle}>Settings</Text>
 
       {/* Wallet info */}
-      <View style={styles.walletCard}>
+      <TouchableOpacity style={styles.walletCard} onPress={() => navigation.navigate('Accounts')} activeOpacity={0.8}>
         <View style={styles.walletAvatar}>
           <Text style={{ fontSize: 28 }}>👤</Text>
         </View>
         <View style={styles.walletInfo}>
-          <Text style={styles.walletLabel}>My Wallet</Text>
+          <Text style={styles.walletLabel}>
+            {meta?.accounts.find(a => a.index === meta.selectedAccount)?.name ?? 'My Wallet'}
+          </Text>
           <Text style={styles.walletAddress}>{shortAddress}</Text>
-          {meta?.backupVerified
+          {meta?.type === 'watchOnly' ? null : meta?.backupVerified
             ? <View style={styles.backupBadge}><Text style={styles.backupBadgeText}>✓ Backup verified</Text></View>
             : <View style={[styles.backupBadge, styles.backupWarning]}><Text style={[styles.backupBadgeText, { color: Colors.warning }]}>⚠ Backup not verified</Text></View>
           }
         </View>
-      </View>
+        <Text style={styles.chevron}>›</Text>
+      </TouchableOpacity>
 
-      {/* ── Security ── */}
-      <Text style={styles.sectionTitle}>Security</Text>
+      {/* ── Wallets ── */}
+      <Text style={styles.sectionTitle}>Wallets</Text>
       <View style={styles.section}>
         <SettingRow
-          icon="🔑"
-          label="Recovery Phrase"
-          sublabel="View & back up your secret phrase"
-          onPress={handleBackupPhrase}
+          icon="👛"
+          label="Manage Wallets"
+          sublabel={`${meta?.name ?? 'No wallet'} · add, switch, rename or remove`}
+          onPress={() => navigation.navigate('Wallets')}
           showChevron
         />
+      </View>
+
+      {/* ── Security ── */}
+      <Text style={styles.sectionTitle}>Security</Text>
+      <View style={styles.section}>
+        {meta?.type !== 'watchOnly' && (
+          <SettingRow
+            icon="🔑"
+            label={secretLabel}
+            sublabel={isPrivateKey ? 'View & back up your private key' : 'View & back up your secret phrase'}
+            onPress={handleBackupPhrase}
+            showChevron
+          />
+        )}
+        {meta?.type === 'hd' && (
+          <SettingRow
+            icon="✅"
+            label="Verify Backup"
+            sublabel={meta.backupVerified ? 'Verified · run the quiz again' : 'Not verified · take the recovery phrase quiz'}
+            onPress={() => navigation.navigate('BackupQuiz')}
+            showChevron
+          />
+        )}
+        {meta?.type === 'hd' && (
+          <SettingRow
+            icon="🧩"
+            label="Shamir Backup"
+            sublabel="Split your phrase into SLIP-39 shares"
+            onPress={() => navigation.navigate('ShamirBackup')}
+            showChevron
+          />
+        )}
         <SettingRow
           icon="🔒"
           label="Biometric Unlock"
-          sublabel="Use fingerprint or Face ID"
-          right={<Switch value={biometrics} onValueChange={setBiometrics} trackColor={{ true: Colors.primary }} thumbColor="#fff" />}
+          sublabel={biometryLabel ? `Unlock and confirm sends with ${biometryLabel}` : 'Not available on this device'}
+          right={<Switch value={biometrics} onValueChange={toggleBiometrics} disabled={!biometryLabel && !biometrics} trackColor={{ true: Colors.primary }} thumbColor="#fff" />}
         />
         <SettingRow
           icon="🔐"
           label="Change PIN"
           sublabel="Update your wallet PIN"
-          onPress={() => Alert.alert('Change PIN', 'Navigate to PIN change flow.')}
+          onPress={() => navigation.navigate('ChangePin')}
           showChevron
         />
+        <SettingRow
+          icon="💣"
+          label="Erase After Failed Attempts"
+          sublabel={`Delete wallet after ${DEFAULT_WIPE_AFTER} wrong PINs`}
+          right={<Switch value={wipeOnFailures} onValueChange={toggleWipeOnFailures} trackColor={{ true: Colors.primary }} thumbColor="#fff" />}
+        />
+        <SettingRow
+          icon="⏱"
+          label="Auto-Lock"
+          sublabel={autoLock === 0 ? 'Lock when the app leaves the screen' : 'Lock after this long without activity'}
+        />
+        <View style={styles.optionRow}>
+          {AUTO_LOCK_OPTIONS.map((o) => (
+            <TouchableOpacity
+              key={o.value}
+              style={[styles.option, autoLock === o.value && styles.optionActive]}
+              onPress={() => changeAutoLock(o.value)}>
+              <Text style={[styles.optionText, autoLock === o.value && styles.optionTextActive]}>{o.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <SettingRow
+          icon="✍️"
+          label="Skip PIN for Small Sends"
+          sublabel={sessionTtl === 0 ? 'Every transaction asks for your PIN' : 'For this long after unlocking; large sends and approvals always ask'}
+        />
+        <View style={styles.optionRow}>
+          {SESSION_TTL_OPTIONS.map((o) => (
+            <TouchableOpacity
+              key={o.value}
+              style={[styles.option, sessionTtl === o.value && styles.optionActive]}
+              onPress={() => changeSessionTtl(o.value)}>
+              <Text style={[styles.optionText, sessionTtl === o.value && styles.optionTextActive]}>{o.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
         <SettingRow
           icon="🔴"
           label="Lock Wallet"
@@ -173,7 +327,7 @@ export default function SettingsScreen() {
       {/* Danger zone */}
       <View style={styles.dangerSection}>
         <TouchableOpacity style={styles.dangerBtn} onPress={handleWipeWallet}>
-          <Text style={styles.dangerBtnText}>🗑 Delete Wallet from Device</Text>
+          <Text style={styles.dangerBtnText}>🗑 Delete This Wallet from Device</Text>
         </TouchableOpacity>
         <Text style={styles.dangerNote}>
           This removes your wallet from this device only. Your funds remain on-chain.
@@ -225,6 +379,11 @@ const styles = StyleSheet.create({
   chevron:        { color: Colors.textMuted, fontSize: 20 },
   checkmark:      { color: Colors.primary, fontSize: 18, fontWeight: '700' },
   chainDot:       { width: 20, height: 20, borderRadius: 10 },
+  optionRow:      { flexDirection: 'row', gap: 8, paddingHorizontal: Spacing.md, paddingBottom: Spacing.md, borderBottomWidth: 1, borderBottomColor: Colors.border },
+  option:         { flex: 1, alignItems: 'center', paddingVertical: 8, borderRadius: Radius.full, borderWidth: 1, borderColor: Colors.border },
+  optionActive:   { borderColor: Colors.primary, backgroundColor: Colors.primary + '22' },
+  optionText:     { ...Typography.caption, color: Colors.textSecondary },
+  optionTextActive: { color: Colors.primary, fontWeight: '600' },
   dangerSection:  { marginTop: Spacing.sm },
   dangerBtn:      { backgroundColor: Colors.danger + '18', borderWidth: 1, borderColor: Colors.danger, borderRadius: Radius.lg, padding: Spacing.md, alignItems: 'center', marginBottom: Spacing.sm },
   dangerBtnText:  { color: Colors.danger, fontWeight: '700', fontSize: 15 },
@@ -0,0 +1,115 @@
+/**
+ * ShamirBackupScreen.tsx — Create SLIP-39 shares for the active wallet
+ * The phrase is decrypted with the PIN, held only while this screen is open.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity,
+  ScrollView, Alert, ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Colors, Spacing, Typography } from '../../constants/theme';
+import { useWalletStore } from '../../store/walletStore';
+import { loadMnemonic } from '../../core/wallet';
+import { attemptPin, failureMessage, formatLockout } from '../../core/lockout';
+import { RootStackParams } from '../../navigation/AppNavigator';
+import PinPad from '../../components/PinPad';
+import ShamirSharesSetup from '../../components/ShamirSharesSetup';
+
+type Nav = NativeStackNavigationProp<RootStackParams, 'ShamirBackup'>;
+
+export default function ShamirBackupScreen() {
+  const navigation = useNavigation<Nav>();
+  const { meta, markBackupVerified, reset } = useWalletStore();
+
+  const [mnemonic, setMnemonic] = useState<string | null>(null);
+  const [pin, setPin]         = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const checkPin = async (enteredPin: string) => {
+    setLoading(true);
+    try {
+      const result = await attemptPin(enteredPin);
+      switch (result.status) {
+        case 'ok':
+          setMnemonic(await loadMnemonic(meta!.id, enteredPin));
+          return;
+        case 'locked':
+          Alert.alert('Locked', `Too many attempts. Try again in ${formatLockout(result.lockedUntil)}.`);
+          break;
+        case 'wiped':
+          reset();
+          Alert.alert('Wallet erased', 'Too many failed attempts. Restore your wallet with its recovery phrase.');
+          navigation.reset({ index: 0, routes: [{ name: 'Auth' }] });
+          return;
+        case 'wrong':
+          Alert.alert('Wrong PIN', failureMessage(result));
+          break;
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not load recovery phrase.');
+    } finally {
+      setLoading(false);
+    }
+    setPin('');
+  };
+
+  const handleDone = async () => {
+    try {
+      await markBackupVerified(meta!.id);
+      Alert.alert('Shares Created', 'Your Shamir backup is complete.', [
+        { text: 'Done', onPress: () => navigation.goBack() },
+      ]);
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    }
+  };
+
+  // ── PIN entry ───────────────────────────────────────────────────────────────
+  if (!mnemonic) {
+    return (
+      <View style={styles.pinContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.back}>
+          <Text style={styles.backText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={styles.pinTitle}>Shamir Backup</Text>
+        <Text style={styles.pinSubtitle}>Enter your PIN to create SLIP-39 shares</Text>
+        {loading
+          ? <ActivityIndicator color={Colors.primary} size="large" style={{ marginVertical: Spacing.xl }} />
+          : <PinPad value={pin} onChange={setPin} onComplete={checkPin} />}
+      </View>
+    );
+  }
+
+  // ── Shares ──────────────────────────────────────────────────────────────────
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.headerRow}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Shamir Backup</Text>
+        <View style={{ width: 24 }} />
+      </View>
+      <Text style={styles.subtitle}>
+        Any qualifying set of shares restores this wallet; fewer reveal nothing.
+        {meta?.hasPassphrase ? ' Your passphrase is not part of the shares — keep it separately.' : ''}
+      </Text>
+      <ShamirSharesSetup mnemonic={mnemonic} onDone={handleDone} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container:    { flex: 1, backgroundColor: Colors.bg },
+  content:      { padding: Spacing.lg, paddingBottom: 40 },
+  headerRow:    { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: Spacing.xl },
+  title:        { ...Typography.h3 },
+  subtitle:     { ...Typography.body, color: Colors.textSecondary, lineHeight: 22, marginBottom: Spacing.lg },
+  pinContainer: { flex: 1, backgroundColor: Colors.bg, paddingHorizontal: Spacing.lg, alignItems: 'center', justifyContent: 'center' },
+  back:         { position: 'absolute', top: 56, left: Spacing.lg },
+  backText:     { color: Colors.primary, fontSize: 20 },
+  pinTitle:     { ...Typography.h2, marginBottom: Spacing.sm },
+  pinSubtitle:  { ...Typography.caption, color: Colors.textSecondary, textAlign: 'center', marginBottom: Spacing.xl },
+});
@@ -6,12 +6,15 @@
 import React, { useState } from 'react';
 import {
   View, Text, StyleSheet, ScrollView,
-  TouchableOpacity, TextInput, Alert, Modal,
+  TouchableOpacity, Alert, Modal,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
 import { useWalletStore } from '../../store/walletStore';
+import { isReadOnly } from '../../core/wallet';
+import ReadOnlyNotice from '../../components/ReadOnlyNotice';
 import { CHAINS } from '../../constants/chains';
+import ActivityTextInput from '../../components/ActivityTextInput';
 
 interface StakingOption {
   chainKey: string;
@@ -69,7 +72,8 @@ const CHAIN_ICON: Record<string, string> = {
 
 export default function StakingScreen() {
   const navigation = useNavigation();
-  const { nativeBalances } = useWalletStore();
+  const { meta, nativeBalances } = useWalletStore();
+  const readOnly = isReadOnly(meta);
   const [selectedProtocol, setSelected] = useState<StakingOption | null>(null);
   const [stakeAmount, setStakeAmount]   = useState('');
   const [activeChain, setActiveChain]   = useState<string>('all');
@@ -207,7 +211,7 @@ export default function StakingScreen() {
 
             <Text style={styles.inputLabel}>Amount to Stake ({selectedProtocol?.symbol})</Text>
             <View style={styles.inputRow}>
-              <TextInput
+              <ActivityTextInput
                 style={styles.input}
                 value={stakeAmount}
                 onChangeText={setStakeAmount}
@@ -222,7 +226,12 @@ export default function StakingScreen() {
               </TouchableOpacity>
             </View>
 
-            <TouchableOpacity style={styles.stakeBtn} onPress={handleStake}>
+            {readOnly && <ReadOnlyNotice action="Staking" />}
+
+            <TouchableOpacity
+              style={[styles.stakeBtn, readOnly && styles.stakeBtnDisabled]}
+              onPress={handleStake}
+              disabled={readOnly}>
               <Text style={styles.stakeBtnText}>Stake Now</Text>
             </TouchableOpacity>
 
@@ -285,5 +294,6 @@ const styles = StyleSheet.create({
   maxBtnText:      { color: Colors.primary, fontWeight: '700', fontSize: 13 },
   stakeBtn:        { backgroundColor: Colors.primary, paddingVertical: 14, borderRadius: Radius.lg, alignItems: 'center', marginBottom: Spacing.sm },
   stakeBtnText:    { color: '#fff', fontSize: 16, fontWeight: '700' },
+  stakeBtnDisabled:{ opacity: 0.4 },
   modalDisclaimer: { ...Typography.caption, color: Colors.textMuted, textAlign: 'center' },
 });
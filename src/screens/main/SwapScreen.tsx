@@ -5,11 +5,14 @@
 import React, { useState } from 'react';
 import {
   View, Text, StyleSheet, TouchableOpacity,
-  TextInput, ScrollView, Alert, ActivityIndicator,
+  ScrollView, Alert, ActivityIndicator,
 } from 'react-native';
 import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
 import { CHAINS, ChainKey } from '../../constants/chains';
 import { useWalletStore } from '../../store/walletStore';
+import { isReadOnly } from '../../core/wallet';
+import ReadOnlyNotice from '../../components/ReadOnlyNotice';
+import ActivityTextInput from '../../components/ActivityTextInput';
 
 const POPULAR_TOKENS: Record<ChainKey, Token[]> = {
   ethereum: [
@@ -38,7 +41,8 @@ const POPULAR_TOKENS: Record<ChainKey, Token[]> = {
 interface Token { symbol: string; name: string; address: string; }
 
 export default function SwapScreen() {
-  const { activeChain, nativeBalances } = useWalletStore();
+  const { meta, activeChain, nativeBalances } = useWalletStore();
+  const readOnly = isReadOnly(meta);
   const [chain, setChain]     = useState<ChainKey>(activeChain);
   const [fromToken, setFrom]  = useState<Token>(POPULAR_TOKENS[activeChain][0]);
   const [toToken, setTo]      = useState<Token>(POPULAR_TOKENS[activeChain][1]);
@@ -154,7 +158,7 @@ export default function SwapScreen() {
             <Text style={styles.tokenSelectorText}>{fromToken.symbol}</Text>
             <Text style={styles.chevron}>▾</Text>
           </TouchableOpacity>
-          <TextInput
+          <ActivityTextInput
             style={styles.amountInput}
             value={fromAmount}
             onChangeText={(v) => { setFromAmount(v); simulateQuote(v); }}
@@ -187,7 +191,7 @@ export default function SwapScreen() {
           {loading
             ? <ActivityIndicator color={Colors.primary} style={{ flex: 1 }} />
             : (
-              <TextInput
+              <ActivityTextInput
                 style={[styles.amountInput, { color: Colors.textSecondary }]}
                 value={toAmount}
                 editable={false}
@@ -223,7 +227,12 @@ export default function SwapScreen() {
         </View>
       ) : null}
 
-      <TouchableOpacity style={styles.swapBtn} onPress={handleSwap}>
+      {readOnly && <View style={{ marginTop: Spacing.lg }}><ReadOnlyNotice action="Swapping" /></View>}
+
+      <TouchableOpacity
+        style={[styles.swapBtn, readOnly && styles.swapBtnDisabled]}
+        onPress={handleSwap}
+        disabled={readOnly}>
         <Text style={styles.swapBtnText}>Swap {fromToken.symbol} → {toToken.symbol}</Text>
       </TouchableOpacity>
 
@@ -272,5 +281,6 @@ const styles = StyleSheet.create({
   rateSubtext:     { ...Typography.caption, color: Colors.primary },
   swapBtn:         { backgroundColor: Colors.primary, paddingVertical: 16, borderRadius: Radius.lg, alignItems: 'center', marginTop: Spacing.lg },
   swapBtnText:     { color: '#fff', fontSize: 16, fontWeight: '700' },
+  swapBtnDisabled: { opacity: 0.4 },
   disclaimer:      { ...Typography.caption, color: Colors.textMuted, textAlign: 'center', marginTop: Spacing.md, lineHeight: 18 },
 });
@@ -0,0 +1,244 @@
+/**
+ * TransactionDetailScreen.tsx — One history entry: status, fees, decoded call
+ * Journal fields show at once; nonce, calldata, fee breakdown and
+ * confirmations are read from the chain. Pending sends from this account can
+ * be sped up or cancelled here (see components/ReplaceActions.tsx).
+ */
+import React, { useState, useEffect } from 'react';
+import {
+  View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Linking,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ethers } from 'ethers';
+import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
+import { CHAINS } from '../../constants/chains';
+import { useWalletStore } from '../../store/walletStore';
+import { selectedAccountRef, isReadOnly } from '../../core/wallet';
+import { Transaction, formatTxAmount } from '../../core/transactions';
+import { readTxDetails, TxChainDetails } from '../../core/txTracker';
+import { decodeCalldata } from '../../core/calldata';
+import { canReplace } from '../../core/replace';
+import { formatFee } from '../../core/fees';
+import { getNativeUsdPrice, formatUsd } from '../../core/prices';
+import { RootStackParams } from '../../navigation/AppNavigator';
+import ReplaceActions from '../../components/ReplaceActions';
+
+type RouteType = RouteProp<RootStackParams, 'TransactionDetail'>;
+type Nav       = NativeStackNavigationProp<RootStackParams, 'TransactionDetail'>;
+
+// Confirmations keep counting while the screen is open
+const REFRESH_MS = 15_000;
+
+const STATUS_COLOR: Record<string, string> = {
+  pending:   Colors.warning,
+  confirmed: Colors.success,
+  failed:    Colors.danger,
+  replaced:  Colors.textMuted,
+};
+
+function short(value: string): string {
+  return `${value.slice(0, 10)}…${value.slice(-8)}`;
+}
+
+function gwei(wei: bigint): string {
+  return `${parseFloat(ethers.formatUnits(wei, 'gwei')).toFixed(2)} gwei`;
+}
+
+export default function TransactionDetailScreen() {
+  const navigation = useNavigation<Nav>();
+  const { chainKey, hash, contractAddress } = useRoute<RouteType>().params;
+  const { meta, transactions, addTransaction, reset } = useWalletStore();
+
+  // From the store, so tracker updates show while the screen is open
+  const tx = transactions.find(t =>
+    t.chainKey === chainKey && t.hash === hash && t.asset.contractAddress === contractAddress);
+
+  const [details, setDetails]   = useState<TxChainDetails | null>(null);
+  const [usdPrice, setUsdPrice] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => readTxDetails(chainKey, hash)
+      .then(d => { if (!cancelled) setDetails(d); })
+      .catch(() => {});
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => { cancelled = true; clearInterval(id); };
+  }, [chainKey, hash, tx?.status]);
+
+  useEffect(() => {
+    getNativeUsdPrice(chainKey).then(setUsdPrice).catch(() => setUsdPrice(null));
+  }, [chainKey]);
+
+  if (!tx) {
+    return (
+      <View style={[styles.container, styles.center]}>
+        <Text style={styles.muted}>This transaction is no longer in the history.</Text>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.linkText}>Go back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const chain       = CHAINS[tx.chainKey];
+  const ownSend     = tx.from.toLowerCase() === meta?.address.toLowerCase();
+  const replaceable = canReplace(tx) && ownSend && !isReadOnly(meta);
+  const decoded     = decodeCalldata(details?.data);
+  const explorerUrl = `${chain.explorerUrl}/tx/${tx.hash}`;
+
+  const onReplaced = (record: Transaction) => {
+    addTransaction(record);
+    Alert.alert(
+      'Submitted',
+      `Replacement sent.\nHash: ${record.hash.slice(0, 20)}…`,
+      [
+        { text: 'Done' },
+        { text: 'View', onPress: () => navigation.replace('TransactionDetail', {
+          chainKey: record.chainKey, hash: record.hash, contractAddress: record.asset.contractAddress,
+        }) },
+      ],
+    );
+  };
+
+  const onWiped = () => {
+    reset();
+    Alert.alert('Wallet erased', 'Too many failed attempts. Restore your wallet with its recovery phrase.');
+    navigation.reset({ index: 0, routes: [{ name: 'Auth' }] });
+  };
+
+  // ── Fee breakdown ───────────────────────────────────────────────────────────
+  const fees: [string, string][] = [];
+  const gasLimit = details?.gasLimit ?? (tx.fees ? BigInt(tx.fees.gasLimit) : null);
+  if (gasLimit !== null) {
+    fees.push(['Gas limit', gasLimit.toString()]);
+  }
+  if (details?.gasUsed != null) fees.push(['Gas used', details.gasUsed.toString()]);
+  const maxFee = details?.maxFeePerGas ?? (tx.fees?.type === 2 ? BigInt(tx.fees.maxFeePerGas) : null);
+  const maxTip = details?.maxPriorityFeePerGas ?? (tx.fees?.type === 2 ? BigInt(tx.fees.maxPriorityFeePerGas) : null);
+  const gasPrice = details?.gasPrice ?? (tx.fees?.type === 0 ? BigInt(tx.fees.gasPrice) : null);
+  if (details?.effectiveGasPrice != null && details.baseFee !== null && maxFee !== null) {
+    fees.push(['Base fee', gwei(details.baseFee)]);
+    fees.push(['Priority fee', gwei(details.effectiveGasPrice - details.baseFee)]);
+  }
+  if (maxFee !== null) fees.push(['Max fee', gwei(maxFee)]);
+  if (maxTip !== null) fees.push(['Max priority fee', gwei(maxTip)]);
+  if (gasPrice !== null) fees.push(['Gas price', gwei(gasPrice)]);
+
+  const paid = tx.receipt
+    ? BigInt(tx.receipt.effectiveFee)
+    : details?.gasUsed != null && details.effectiveGasPrice !== null
+      ? details.gasUsed * details.effectiveGasPrice
+      : null;
+  const maxCost = gasLimit !== null && (maxFee ?? gasPrice) !== null ? gasLimit * (maxFee ?? gasPrice)! : null;
+  const withUsd = (wei: bigint) => {
+    const usd = usdPrice === null ? null : parseFloat(ethers.formatEther(wei)) * usdPrice;
+    return `${formatFee(wei, chain.symbol)}${usd === null ? '' : ` (${formatUsd(usd)})`}`;
+  };
+  if (paid !== null) fees.push(['Fee paid', withUsd(paid)]);
+  else if (maxCost !== null) fees.push(['Max cost', withUsd(maxCost)]);
+
+  const nonce = details?.nonce ?? tx.nonce;
+  const summary: [string, string][] = [
+    ['Network', chain.name],
+    ['From', short(tx.from)],
+    ['To', short(tx.to)],
+    ['Hash', short(tx.hash)],
+  ];
+  if (nonce !== undefined && nonce !== null) summary.push(['Nonce', String(nonce)]);
+  if (tx.receipt) {
+    summary.push(['Block', String(tx.receipt.blockNumber)]);
+    summary.push(['Confirmations', String(details?.confirmations ?? '…')]);
+  }
+  if (tx.replaces) summary.push(['Replaces', short(tx.replaces)]);
+  if (tx.replacedBy) summary.push(['Replaced by', short(tx.replacedBy)]);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.headerRow}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.closeText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{tx.type.charAt(0).toUpperCase() + tx.type.slice(1)}</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.hero}>
+        <Text style={styles.amount}>{formatTxAmount(tx)}</Text>
+        <View style={[styles.status, { backgroundColor: STATUS_COLOR[tx.status] + '33' }]}>
+          <Text style={[styles.statusText, { color: STATUS_COLOR[tx.status] }]}>{tx.status}</Text>
+        </View>
+        <Text style={styles.muted}>{new Date(tx.timestamp).toLocaleString()}</Text>
+      </View>
+
+      <Section title="Details" rows={summary} />
+      {fees.length > 0 && <Section title="Network Fee" rows={fees} />}
+
+      {decoded && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Contract Call</Text>
+          <Text style={styles.method}>
+            {decoded.method}{decoded.source && <Text style={styles.muted}>  · {decoded.source}</Text>}
+          </Text>
+          {decoded.source === null && <Text style={styles.muted}>Unknown method</Text>}
+          {decoded.args.map(arg => (
+            <View key={arg.name} style={styles.row}>
+              <Text style={styles.rowLabel}>{arg.name} <Text style={styles.muted}>{arg.type}</Text></Text>
+              <Text style={styles.rowValue} selectable>{arg.value}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {replaceable && (
+        <ReplaceActions
+          tx={tx}
+          account={selectedAccountRef(meta!)}
+          onReplaced={onReplaced}
+          onWiped={onWiped}
+        />
+      )}
+
+      <TouchableOpacity style={styles.explorerBtn} onPress={() => Linking.openURL(explorerUrl)}>
+        <Text style={styles.linkText}>View on {chain.explorerUrl.replace(/^https?:\/\//, '')} ↗</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+function Section({ title, rows }: { title: string; rows: [string, string][] }) {
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{title}</Text>
+      {rows.map(([label, value]) => (
+        <View key={label} style={styles.row}>
+          <Text style={styles.rowLabel}>{label}</Text>
+          <Text style={styles.rowValue} numberOfLines={1}>{value}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container:   { flex: 1, backgroundColor: Colors.bg },
+  content:     { padding: Spacing.lg, paddingBottom: 40 },
+  center:      { justifyContent: 'center', alignItems: 'center', paddingHorizontal: Spacing.lg },
+  headerRow:   { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: Spacing.xl },
+  closeText:   { color: Colors.primary, fontSize: 20 },
+  title:       { ...Typography.h3 },
+  hero:        { alignItems: 'center', marginBottom: Spacing.lg, gap: Spacing.sm },
+  amount:      { fontSize: 28, fontWeight: '700', color: Colors.textPrimary },
+  status:      { borderRadius: Radius.full, paddingHorizontal: 10, paddingVertical: 3 },
+  statusText:  { fontSize: 12, fontWeight: '600' },
+  muted:       { ...Typography.caption, color: Colors.textMuted },
+  card:        { backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, marginBottom: Spacing.md, borderWidth: 1, borderColor: Colors.border },
+  cardTitle:   { ...Typography.label, marginBottom: Spacing.sm },
+  method:      { ...Typography.body, fontWeight: '600', fontFamily: 'monospace', marginBottom: 4 },
+  row:         { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 8, borderTopWidth: 1, borderTopColor: Colors.border, gap: Spacing.md },
+  rowLabel:    { ...Typography.caption, color: Colors.textSecondary },
+  rowValue:    { ...Typography.caption, fontFamily: 'monospace', flex: 1, textAlign: 'right' },
+  explorerBtn: { alignItems: 'center', padding: Spacing.md },
+  linkText:    { color: Colors.primary, fontWeight: '600', fontSize: 15 },
+});
@@ -0,0 +1,169 @@
+/**
+ * WalletsScreen.tsx — Wallets stored on this device: switch, add, rename, remove
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, StyleSheet, ScrollView, TouchableOpacity,
+  Alert, ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Colors, Spacing, Radius, Typography } from '../../constants/theme';
+import { useWalletStore } from '../../store/walletStore';
+import { WalletMeta, WalletType } from '../../core/wallet';
+import { RootStackParams } from '../../navigation/AppNavigator';
+import ActivityTextInput from '../../components/ActivityTextInput';
+
+type Nav = NativeStackNavigationProp<RootStackParams, 'Wallets'>;
+
+const TYPE_LABELS: Record<WalletType, string> = {
+  hd:         'Recovery phrase',
+  privateKey: 'Private key',
+  watchOnly:  'Watch-only',
+};
+
+export default function WalletsScreen() {
+  const navigation = useNavigation<Nav>();
+  const { meta, wallets, switchWallet, renameWallet, removeWallet } = useWalletStore();
+  const [editing, setEditing]     = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [busy, setBusy]           = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSelect = (wallet: WalletMeta) => {
+    if (wallet.id === meta?.id) return;
+    run(() => switchWallet(wallet.id));
+  };
+
+  const startRename = (wallet: WalletMeta) => {
+    setEditing(wallet.id);
+    setDraftName(wallet.name);
+  };
+
+  const commitRename = () => {
+    if (editing === null) return;
+    const id = editing;
+    setEditing(null);
+    run(() => renameWallet(id, draftName));
+  };
+
+  const handleRemove = (wallet: WalletMeta) => {
+    Alert.alert(
+      '⚠️ Remove Wallet',
+      `"${wallet.name}" and its keys will be deleted from this device. Make sure you have its recovery phrase backed up.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => run(() => removeWallet(wallet.id)) },
+      ],
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.headerRow}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Wallets</Text>
+        <View style={{ width: 48, alignItems: 'flex-end' }}>
+          {busy && <ActivityIndicator color={Colors.primary} size="small" />}
+        </View>
+      </View>
+
+      {wallets.map((wallet) => {
+        const active = wallet.id === meta?.id;
+        const visibleAccounts = wallet.accounts.filter(a => !a.hidden).length;
+        return (
+          <TouchableOpacity
+            key={wallet.id}
+            style={[styles.row, active && styles.rowSelected]}
+            onPress={() => handleSelect(wallet)}
+            disabled={busy}
+            activeOpacity={0.8}>
+            <View style={styles.avatar}>
+              <Text style={styles.avatarText}>{wallet.name.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View style={styles.rowContent}>
+              {editing === wallet.id ? (
+                <ActivityTextInput
+                  style={styles.nameInput}
+                  value={draftName}
+                  onChangeText={setDraftName}
+                  onEndEditing={commitRename}
+                  autoFocus
+                  maxLength={32}
+                  returnKeyType="done"
+                />
+              ) : (
+                <Text style={styles.name}>{wallet.name}</Text>
+              )}
+              <Text style={styles.address}>
+                {wallet.type === 'hd'
+                  ? `${visibleAccounts} account${visibleAccounts === 1 ? '' : 's'}`
+                  : TYPE_LABELS[wallet.type]} · {wallet.address.slice(0, 8)}…{wallet.address.slice(-6)}
+              </Text>
+            </View>
+            {active && <Text style={styles.checkmark}>✓</Text>}
+            <TouchableOpacity onPress={() => startRename(wallet)} style={styles.smallBtn}>
+              <Text style={styles.smallBtnText}>✎</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleRemove(wallet)} style={styles.smallBtn}>
+              <Text style={styles.smallBtnText}>🗑</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity
+        style={[styles.addBtn, busy && styles.btnDisabled]}
+        onPress={() => navigation.navigate('Auth', { screen: 'CreateWallet' })}
+        disabled={busy}>
+        <Text style={styles.addBtnText}>+ Create New Wallet</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.addBtn, busy && styles.btnDisabled]}
+        onPress={() => navigation.navigate('Auth', { screen: 'ImportWallet' })}
+        disabled={busy}>
+        <Text style={styles.addBtnText}>↓ Import Existing Wallet</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.note}>
+        Every wallet on this device is unlocked with the same PIN. Each one has its own recovery phrase — back up all of them.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container:    { flex: 1, backgroundColor: Colors.bg },
+  content:      { padding: Spacing.lg, paddingTop: 56, paddingBottom: 40 },
+  headerRow:    { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: Spacing.xl },
+  backText:     { color: Colors.primary, fontSize: 16, width: 48 },
+  title:        { ...Typography.h3 },
+  row:          { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm, backgroundColor: Colors.bgCard, borderRadius: Radius.md, padding: Spacing.md, marginBottom: 8, borderWidth: 1, borderColor: Colors.border },
+  rowSelected:  { borderColor: Colors.primary },
+  avatar:       { width: 36, height: 36, borderRadius: 18, backgroundColor: Colors.primary + '33', justifyContent: 'center', alignItems: 'center' },
+  avatarText:   { color: Colors.primary, fontWeight: '700' },
+  rowContent:   { flex: 1 },
+  name:         { ...Typography.body, fontWeight: '600' },
+  nameInput:    { ...Typography.body, fontWeight: '600', borderBottomWidth: 1, borderBottomColor: Colors.primary, paddingVertical: 2 },
+  address:      { ...Typography.caption, fontFamily: 'monospace' },
+  checkmark:    { color: Colors.primary, fontSize: 18, fontWeight: '700', paddingHorizontal: 8 },
+  smallBtn:     { paddingHorizontal: 8, paddingVertical: 4 },
+  smallBtnText: { color: Colors.textSecondary, fontSize: 13 },
+  addBtn:       { alignItems: 'center', padding: Spacing.md, marginTop: Spacing.sm, borderRadius: Radius.lg, borderWidth: 1, borderColor: Colors.primary },
+  addBtnText:   { color: Colors.primary, fontWeight: '700', fontSize: 15 },
+  btnDisabled:  { opacity: 0.5 },
+  note:         { ...Typography.caption, color: Colors.textMuted, textAlign: 'center', marginTop: Spacing.lg, lineHeight: 18 },
+});
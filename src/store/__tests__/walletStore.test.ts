@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { useWalletStore, tokensOn, Transaction } from '../walletStore';
+import { getTokenBalance, WalletMeta } from '../../core/wallet';
+import { getNativeUsdPrice, getTokenUsdPrice } from '../../core/prices';
+
+jest.mock('../../core/wallet', () => ({
+  ...jest.requireActual<object>('../../core/wallet'),
+  getNativeBalance: jest.fn(async () => '1.0'),
+  getTokenBalance: jest.fn(),
+}));
+
+jest.mock('../../core/prices', () => ({
+  getNativeUsdPrice: jest.fn(),
+  getTokenUsdPrice: jest.fn(),
+}));
+
+const tokenBalance = getTokenBalance as jest.MockedFunction<typeof getTokenBalance>;
+const nativePrice  = getNativeUsdPrice as jest.MockedFunction<typeof getNativeUsdPrice>;
+const tokenPrice   = getTokenUsdPrice as jest.MockedFunction<typeof getTokenUsdPrice>;
+
+const ME    = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const USDC  = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+const meta = { id: 'w1', address: ME, accounts: [], selectedAccount: 0 } as unknown as WalletMeta;
+
+function tx(overrides: Partial<Transaction>): Transaction {
+  return {
+    hash: '0xaa',
+    from: OTHER,
+    to: ME,
+    amount: '1',
+    asset: { symbol: 'ETH', decimals: 18 },
+    timestamp: 1,
+    status: 'confirmed',
+    type: 'receive',
+    chainKey: 'ethereum',
+    ...overrides,
+  };
+}
+
+describe('walletStore', () => {
+  beforeEach(() => {
+    useWalletStore.getState().reset();
+    tokenBalance.mockReset();
+    nativePrice.mockResolvedValue(null);
+    tokenPrice.mockResolvedValue(null);
+  });
+
+  describe('refreshBalances', () => {
+    it('lists a received token so Send can pick it', async () => {
+      tokenBalance.mockResolvedValue({ balance: '25.5', symbol: 'USDC', decimals: 6 });
+      useWalletStore.setState({
+        meta,
+        transactions: [tx({ asset: { symbol: 'USDC', decimals: 6, contractAddress: USDC } })],
+      });
+
+      await useWalletStore.getState().refreshBalances();
+
+      expect(tokenBalance).toHaveBeenCalledWith(USDC, ME, 'ethereum');
+      const picker = tokensOn(useWalletStore.getState().assets, 'ethereum');
+      expect(picker).toEqual([expect.objectContaining({
+        symbol: 'USDC', balance: '25.5', decimals: 6, contractAddress: USDC, chainKey: 'ethereum',
+      })]);
+      expect(tokensOn(useWalletStore.getState().assets, 'polygon')).toEqual([]);
+    });
+
+    it('prices held tokens and counts them in the total', async () => {
+      tokenBalance.mockResolvedValue({ balance: '25.5', symbol: 'USDC', decimals: 6 });
+      tokenPrice.mockResolvedValue(2);
+      nativePrice.mockImplementation(async (k) => (k === 'ethereum' ? 1000 : null));
+      useWalletStore.setState({
+        meta,
+        transactions: [tx({ asset: { symbol: 'USDC', decimals: 6, contractAddress: USDC } })],
+      });
+
+      await useWalletStore.getState().refreshBalances();
+
+      expect(tokenPrice).toHaveBeenCalledWith('ethereum', USDC);
+      expect(useWalletStore.getState().assets[0].usdValue).toBe(51);
+      // 1 ETH at $1000 plus the tokens; unpriced BNB and MATIC are left out
+      expect(useWalletStore.getState().totalUsdValue).toBe(1051);
+    });
+
+    it('marks a token without a price as unknown rather than worthless', async () => {
+      tokenBalance.mockResolvedValue({ balance: '25.5', symbol: 'USDC', decimals: 6 });
+      useWalletStore.setState({
+        meta,
+        transactions: [tx({ asset: { symbol: 'USDC', decimals: 6, contractAddress: USDC } })],
+      });
+
+      await useWalletStore.getState().refreshBalances();
+
+      expect(useWalletStore.getState().assets[0].usdValue).toBeNull();
+      expect(useWalletStore.getState().totalUsdValue).toBe(0);
+    });
+
+    it('leaves out empty tokens and ones this account never touched', async () => {
+      tokenBalance.mockResolvedValue({ balance: '0.0', symbol: 'USDC', decimals: 6 });
+      useWalletStore.setState({
+        meta,
+        transactions: [
+          tx({ asset: { symbol: 'USDC', decimals: 6, contractAddress: USDC } }),
+          tx({ hash: '0xbb', from: OTHER, to: OTHER, asset: { symbol: 'DAI', decimals: 18, contractAddress: OTHER } }),
+        ],
+      });
+
+      await useWalletStore.getState().refreshBalances();
+
+      expect(tokenBalance).toHaveBeenCalledTimes(1);
+      expect(useWalletStore.getState().assets).toEqual([]);
+    });
+  });
+
+  describe('updateTxStatus', () => {
+    it('settles every entry that shares the hash', () => {
+      const receipt = { blockNumber: 10, gasUsed: '21000', effectiveFee: '21000000000000' };
+      useWalletStore.setState({
+        transactions: [
+          tx({ hash: '0xaa', status: 'pending', type: 'send', from: ME, to: OTHER }),
+          tx({ hash: '0xaa', status: 'pending', asset: { symbol: 'USDC', decimals: 6, contractAddress: USDC } }),
+          tx({ hash: '0xbb', status: 'pending' }),
+        ],
+      });
+
+      useWalletStore.getState().updateTxStatus('0xaa', 'confirmed', { receipt });
+
+      const [first, second, other] = useWalletStore.getState().transactions;
+      expect(first).toMatchObject({ status: 'confirmed', receipt });
+      expect(second).toMatchObject({ status: 'confirmed', receipt });
+      expect(other.status).toBe('pending');
+    });
+  });
+});
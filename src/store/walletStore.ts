@@ -4,39 +4,41 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { CHAINS, ChainKey, DEFAULT_CHAIN_KEY } from '../constants/chains';
-import { getNativeBalance, loadWalletMeta, WalletMeta } from '../core/wallet';
+import {
+  getNativeBalance, getTokenBalance, loadWalletMeta, saveWalletMeta, WalletMeta,
+  addDerivedAccount, updateAccount, switchAccount, changeWalletPassphrase,
+  listWallets, setActiveWallet, deleteWallet, completePinChange,
+} from '../core/wallet';
+import { clearSession } from '../core/session';
+import { getNativeUsdPrice, getTokenUsdPrice } from '../core/prices';
+import {
+  Transaction, loadTransactions, saveTransactions, tokensInHistory,
+} from '../core/transactions';
+
+export type { Transaction, TxAsset } from '../core/transactions';
 
 export interface TokenAsset {
   symbol: string;
   name: string;
   balance: string;
-  usdValue: number;
+  usdValue: number | null;     // null when the token has no price
+  decimals: number;
   contractAddress?: string;
   iconUrl?: string;
   chainKey: ChainKey;
 }
 
-export interface Transaction {
-  hash: string;
-  from: string;
-  to: string;
-  value: string;
-  timestamp: number;
-  status: 'pending' | 'confirmed' | 'failed';
-  type: 'send' | 'receive' | 'swap' | 'approve';
-  chainKey: ChainKey;
-}
-
 interface WalletState {
   // Wallet identity
-  meta: WalletMeta | null;
+  meta: WalletMeta | null;      // active wallet
+  wallets: WalletMeta[];
   isUnlocked: boolean;
   activeChain: ChainKey;
 
   // Balances & assets
   nativeBalances: Record<ChainKey, string>;
   assets: TokenAsset[];
-  totalUsdValue: number;
+  totalUsdValue: number;        // priced assets only
 
   // Transactions
   transactions: Transaction[];
@@ -47,13 +49,20 @@ interface WalletState {
 
   // Actions
   setMeta: (meta: WalletMeta) => void;
+  addWallet: (meta: WalletMeta) => void;
   setUnlocked: (val: boolean) => void;
+  lock: () => void;
   setActiveChain: (chain: ChainKey) => void;
   setNativeBalance: (chain: ChainKey, balance: string) => void;
   setAssets: (assets: TokenAsset[]) => void;
   setTotalUsdValue: (val: number) => void;
   addTransaction: (tx: Transaction) => void;
-  updateTxStatus: (hash: string, status: Transaction['status']) => void;
+  mergeTransactions: (found: Transaction[]) => void;
+  updateTxStatus: (
+    hash: string,
+    status: Transaction['status'],
+    details?: Pick<Transaction, 'receipt' | 'replacedBy'>,
+  ) => void;
   setLoading: (val: boolean) => void;
   setError: (msg: string | null) => void;
   reset: () => void;
@@ -61,10 +70,24 @@ interface WalletState {
   // Async thunks
   loadFromStorage: () => Promise<void>;
   refreshBalances: () => Promise<void>;
+
+  // Accounts (persisted; reject with a user-facing message)
+  addAccount: (name?: string) => Promise<void>;
+  renameAccount: (index: number, name: string) => Promise<void>;
+  setAccountHidden: (index: number, hidden: boolean) => Promise<void>;
+  selectAccount: (index: number) => Promise<void>;
+  switchPassphrase: (passphrase: string, pin: string) => Promise<void>;
+  markBackupVerified: (walletId: string) => Promise<void>;
+
+  // Wallets (keyrings)
+  switchWallet: (walletId: string) => Promise<void>;
+  renameWallet: (walletId: string, name: string) => Promise<void>;
+  removeWallet: (walletId: string) => Promise<void>;
 }
 
 const initialState = {
   meta: null,
+  wallets: [],
   isUnlocked: false,
   activeChain: DEFAULT_CHAIN_KEY as ChainKey,
   nativeBalances: {} as Record<ChainKey, string>,
@@ -79,29 +102,75 @@ export const useWalletStore = create<WalletState>()(
   immer((set, get) => ({
     ...initialState,
 
-    setMeta: (meta) => set((s) => { s.meta = meta; }),
+    setMeta: (meta) => set((s) => {
+      s.meta = meta;
+      s.wallets = replaceWallet(s.wallets, meta);
+    }),
+    addWallet: (meta) => set((s) => {
+      s.wallets = [...s.wallets.filter((w) => w.id !== meta.id), meta];
+      s.meta = meta;
+      clearPortfolio(s);
+    }),
     setUnlocked: (val) => set((s) => { s.isUnlocked = val; }),
+    // Keeps wallet metadata for UnlockScreen; drops balances and session keys until unlocked
+    lock: () => {
+      clearSession();
+      set((s) => {
+        s.isUnlocked = false;
+        s.error = null;
+        clearPortfolio(s);
+      });
+    },
     setActiveChain: (chain) => set((s) => { s.activeChain = chain; }),
     setNativeBalance: (chain, balance) =>
       set((s) => { s.nativeBalances[chain] = balance; }),
     setAssets: (assets) => set((s) => { s.assets = assets; }),
     setTotalUsdValue: (val) => set((s) => { s.totalUsdValue = val; }),
-    addTransaction: (tx) =>
-      set((s) => { s.transactions.unshift(tx); }),
-    updateTxStatus: (hash, status) =>
+    addTransaction: (tx) => {
+      set((s) => { s.transactions.unshift(tx); });
+      persistTransactions(get().transactions);
+    },
+    // Indexed transfers; ones already listed (e.g. sent from this device) are skipped
+    mergeTransactions: (found) => {
+      const known = new Set(get().transactions.map(txKey));
+      const fresh = found.filter((tx) => !known.has(txKey(tx)));
+      if (fresh.length === 0) return;
+      set((s) => {
+        s.transactions = [...fresh, ...s.transactions].sort((a, b) => b.timestamp - a.timestamp);
+      });
+      persistTransactions(get().transactions);
+    },
+    // One hash can have several entries (e.g. a swap's token legs); all settle together
+    updateTxStatus: (hash, status, details) => {
       set((s) => {
-        const tx = s.transactions.find((t) => t.hash === hash);
-        if (tx) tx.status = status;
-      }),
+        for (const tx of s.transactions) {
+          if (tx.hash !== hash) continue;
+          tx.status = status;
+          if (details?.receipt) tx.receipt = details.receipt;
+          if (details?.replacedBy) tx.replacedBy = details.replacedBy;
+        }
+      });
+      persistTransactions(get().transactions);
+    },
     setLoading: (val) => set((s) => { s.isLoading = val; }),
     setError: (msg) => set((s) => { s.error = msg; }),
-    reset: () => set(() => ({ ...initialState })),
+    reset: () => {
+      clearSession();
+      set(() => ({ ...initialState }));
+    },
 
     loadFromStorage: async () => {
       set((s) => { s.isLoading = true; });
       try {
-        const meta = await loadWalletMeta();
-        set((s) => { s.meta = meta; });
+        await completePinChange();
+        const [meta, wallets, transactions] = await Promise.all([
+          loadWalletMeta(), listWallets(), loadTransactions(),
+        ]);
+        set((s) => {
+          s.meta = meta;
+          s.wallets = wallets;
+          s.transactions = transactions;
+        });
       } catch (e: any) {
         set((s) => { s.error = e.message; });
       } finally {
@@ -109,8 +178,11 @@ export const useWalletStore = create<WalletState>()(
       }
     },
 
+    // Tokens are the ERC-20 contracts found in this account's history (sent
+    // from here or picked up by the indexer); ones now empty are left out.
+    // The total counts whatever has a price and skips the rest.
     refreshBalances: async () => {
-      const { meta, activeChain } = get();
+      const { meta, transactions } = get();
       if (!meta?.address) return;
       set((s) => { s.isLoading = true; });
       try {
@@ -119,16 +191,52 @@ export const useWalletStore = create<WalletState>()(
           chainKeys
             .filter((k) => !CHAINS[k].isTestnet)
             .map(async (k) => {
-              const bal = await getNativeBalance(meta.address, k);
-              return { k, bal };
+              const [bal, price] = await Promise.all([
+                getNativeBalance(meta.address, k), getNativeUsdPrice(k),
+              ]);
+              return { k, bal, price };
             }),
         );
+        const seen = tokensInHistory(transactions, meta.address);
+        const tokens = await Promise.allSettled(
+          seen.map(async ({ chainKey, asset }) => {
+            const [held, price] = await Promise.all([
+              getTokenBalance(asset.contractAddress!, meta.address, chainKey),
+              getTokenUsdPrice(chainKey, asset.contractAddress!),
+            ]);
+            const token: TokenAsset = {
+              symbol: held.symbol,
+              name: held.symbol,
+              balance: held.balance,
+              usdValue: price === null ? null : Number(held.balance) * price,
+              decimals: held.decimals,
+              contractAddress: asset.contractAddress,
+              chainKey,
+            };
+            return token;
+          }),
+        );
         set((s) => {
+          let total = 0;
           results.forEach((r) => {
             if (r.status === 'fulfilled') {
               s.nativeBalances[r.value.k] = r.value.bal;
+              if (r.value.price !== null) total += Number(r.value.bal) * r.value.price;
             }
           });
+          // A token whose balance call failed keeps its last known balance
+          const previous = new Map(s.assets.map((a) => [assetKey(a), a]));
+          s.assets = [];
+          tokens.forEach((r, i) => {
+            if (r.status === 'fulfilled') {
+              if (Number(r.value.balance) > 0) s.assets.push(r.value);
+              return;
+            }
+            const kept = previous.get(`${seen[i].chainKey}:${seen[i].asset.contractAddress!.toLowerCase()}`);
+            if (kept) s.assets.push(kept);
+          });
+          s.assets.forEach((a) => { if (a.usdValue !== null) total += a.usdValue; });
+          s.totalUsdValue = total;
         });
       } catch (e: any) {
         set((s) => { s.error = e.message; });
@@ -136,5 +244,139 @@ export const useWalletStore = create<WalletState>()(
         set((s) => { s.isLoading = false; });
       }
     },
+
+    addAccount: async (name) => {
+      const next = addDerivedAccount(requireMeta(get().meta), name);
+      await saveWalletMeta(next);
+      set((s) => {
+        s.meta = next;
+        s.wallets = replaceWallet(s.wallets, next);
+      });
+    },
+
+    renameAccount: async (index, name) => {
+      const next = updateAccount(requireMeta(get().meta), index, {
+        name: name.trim() || `Account ${index + 1}`,
+      });
+      await saveWalletMeta(next);
+      set((s) => {
+        s.meta = next;
+        s.wallets = replaceWallet(s.wallets, next);
+      });
+    },
+
+    setAccountHidden: async (index, hidden) => {
+      const next = updateAccount(requireMeta(get().meta), index, { hidden });
+      await saveWalletMeta(next);
+      set((s) => {
+        s.meta = next;
+        s.wallets = replaceWallet(s.wallets, next);
+      });
+    },
+
+    selectAccount: async (index) => {
+      const next = switchAccount(requireMeta(get().meta), index);
+      await saveWalletMeta(next);
+      set((s) => {
+        s.meta = next;
+        s.wallets = replaceWallet(s.wallets, next);
+        clearPortfolio(s);
+      });
+      await get().refreshBalances();
+    },
+
+    switchPassphrase: async (passphrase, pin) => {
+      const next = await changeWalletPassphrase(requireMeta(get().meta), passphrase, pin);
+      await saveWalletMeta(next);
+      set((s) => {
+        s.meta = next;
+        s.wallets = replaceWallet(s.wallets, next);
+        clearPortfolio(s);
+      });
+      await get().refreshBalances();
+    },
+
+    markBackupVerified: async (walletId) => {
+      const target = get().wallets.find((w) => w.id === walletId);
+      if (!target) throw new Error('Unknown wallet');
+      const next = { ...target, backupVerified: true };
+      await saveWalletMeta(next);
+      set((s) => {
+        s.wallets = replaceWallet(s.wallets, next);
+        if (s.meta?.id === walletId) s.meta = next;
+      });
+    },
+
+    switchWallet: async (walletId) => {
+      const next = await setActiveWallet(walletId);
+      set((s) => {
+        s.meta = next;
+        clearPortfolio(s);
+      });
+      await get().refreshBalances();
+    },
+
+    renameWallet: async (walletId, name) => {
+      const target = get().wallets.find((w) => w.id === walletId);
+      if (!target) throw new Error('Unknown wallet');
+      const next = { ...target, name: name.trim() || target.name };
+      await saveWalletMeta(next);
+      set((s) => {
+        s.wallets = replaceWallet(s.wallets, next);
+        if (s.meta?.id === walletId) s.meta = next;
+      });
+    },
+
+    // Deleting the last wallet resets the store back to onboarding.
+    removeWallet: async (walletId) => {
+      const wasActive = get().meta?.id === walletId;
+      const active = await deleteWallet(walletId);
+      if (!active) {
+        get().reset();
+        return;
+      }
+      set((s) => {
+        s.wallets = s.wallets.filter((w) => w.id !== walletId);
+        s.meta = active;
+      });
+      if (wasActive) {
+        set(clearPortfolio);
+        await get().refreshBalances();
+      }
+    },
   })),
-);
\ No newline at end of file
+);
+
+// Tokens on one chain held by the active account, as the Send picker lists them.
+export function tokensOn(assets: TokenAsset[], chainKey: ChainKey): TokenAsset[] {
+  return assets.filter((a) => a.chainKey === chainKey && a.contractAddress);
+}
+
+function assetKey(asset: TokenAsset): string {
+  return `${asset.chainKey}:${asset.contractAddress?.toLowerCase() ?? 'native'}`;
+}
+
+function txKey(tx: Transaction): string {
+  return `${tx.chainKey}:${tx.hash}:${tx.asset.contractAddress?.toLowerCase() ?? 'native'}`;
+}
+
+// Best effort: a failed write only loses history, never funds
+function persistTransactions(transactions: Transaction[]) {
+  saveTransactions(transactions).catch(() => {});
+}
+
+// Balances belong to one address; drop them when the address changes.
+function clearPortfolio(s: WalletState) {
+  s.nativeBalances = {} as Record<ChainKey, string>;
+  s.assets = [];
+  s.totalUsdValue = 0;
+}
+
+function replaceWallet(wallets: WalletMeta[], next: WalletMeta): WalletMeta[] {
+  return wallets.map((w) => (w.id === next.id ? next : w));
+}
+
+function requireMeta(meta: WalletMeta | null): WalletMeta {
+  if (!meta) throw new Error('No wallet loaded');
+  return meta;
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+// Minimal typings for slip39 (ships without declarations)
+declare module 'slip39' {
+  interface Slip39Node {
+    mnemonics: string[];
+  }
+
+  export default class Slip39 {
+    static fromArray(
+      masterSecret: number[],
+      opts?: {
+        passphrase?: string;
+        threshold?: number;
+        groups?: number[][];
+        iterationExponent?: number;
+        extendableBackupFlag?: number;
+        title?: string;
+      },
+    ): Slip39;
+    static recoverSecret(mnemonics: string[], passphrase?: string): number[];
+    static validateMnemonic(mnemonic: string): boolean;
+    fromPath(path: string): Slip39Node;
+  }
+}
+
+declare module 'slip39/src/slip39_helper' {
+  export const WORD_LIST: string[];
+}